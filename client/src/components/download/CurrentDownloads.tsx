@@ -1,13 +1,27 @@
-import { FC, useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FC, useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { MoreHorizontal, Pause, Play, X, Minimize, UploadCloud } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ProgressBar } from "./ProgressBar";
 import { api } from "@/lib/api";
 import { Episode, Series, Download } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import { formatBytes, formatTimeRemaining } from "@/lib/utils";
+import { formatBytes, formatRetryStatus, formatTimeRemaining } from "@/lib/utils";
+
+// Per-download speed limits offered, in bytes per second
+const RATE_LIMIT_OPTIONS = [256, 512, 1024, 2048, 5120].map(kib => kib * 1024);
+const NO_RATE_LIMIT = "none";
+
+/**
+ * The preset limits, plus the download's own when it was set to something
+ * else through the API so the select can still show it
+ */
+const rateLimitOptions = (current: number | null) =>
+  current && !RATE_LIMIT_OPTIONS.includes(current)
+    ? [...RATE_LIMIT_OPTIONS, current].sort((a, b) => a - b)
+    : RATE_LIMIT_OPTIONS;
 
 interface CurrentDownloadsProps {
   downloads: Array<Download & { episode?: Episode; series?: Series }>;
@@ -15,8 +29,22 @@ interface CurrentDownloadsProps {
 
 const CurrentDownloads: FC<CurrentDownloadsProps> = ({ downloads }) => {
   const [expanded, setExpanded] = useState(true);
+  const [, setTick] = useState(0);
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+
+  const { data: retryPolicyData } = useQuery({
+    queryKey: ["/api/downloads/retry-policy"],
+    queryFn: api.getRetryPolicy,
+  });
+  const maxAttempts = retryPolicyData?.retryPolicy.maxAttempts || 0;
+
+  // Tick every second while a retry countdown is on screen
+  const hasRetrying = downloads.some(d => d.status === "retrying");
+  useEffect(() => {
+    if (!hasRetrying) return;
+    const interval = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(interval);
+  }, [hasRetrying]);
 
   const controlDownloadMutation = useMutation({
     mutationFn: ({ downloadId, action }: { downloadId: number; action: "pause" | "resume" | "cancel" }) =>
@@ -27,7 +55,6 @@ const CurrentDownloads: FC<CurrentDownloadsProps> = ({ downloads }) => {
         title: `Download ${actionText}`,
         description: `Successfully ${actionText} the download`,
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
     },
     onError: (error, variables) => {
       toast({
@@ -38,15 +65,26 @@ const CurrentDownloads: FC<CurrentDownloadsProps> = ({ downloads }) => {
     },
   });
 
+  const rateLimitMutation = useMutation({
+    mutationFn: ({ downloadId, rateLimit }: { downloadId: number; rateLimit: number | null }) =>
+      api.setDownloadRateLimit(downloadId, rateLimit),
+    onError: (error) => {
+      toast({
+        title: "Action failed",
+        description: `Failed to change the speed limit: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   const uploadAllMutation = useMutation({
     mutationFn: (downloadIds: number[]) => 
-      api.uploadToRclone(downloadIds, "remote:anime/"), // Default remote path
+      api.uploadToRclone(downloadIds), // Default remote and path from the settings
     onSuccess: () => {
       toast({
         title: "Upload started",
         description: "Files are being uploaded to Rclone remote",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
     },
     onError: (error) => {
       toast({
@@ -84,7 +122,7 @@ const CurrentDownloads: FC<CurrentDownloadsProps> = ({ downloads }) => {
   };
 
   // Overall progress
-  const activeDownloads = downloads.filter(d => d.status === "downloading" || d.status === "queued");
+  const activeDownloads = downloads.filter(d => d.status === "downloading" || d.status === "queued" || d.status === "retrying");
   const totalSize = activeDownloads.reduce((sum, d) => sum + (d.totalSize || 0), 0);
   const downloadedSize = activeDownloads.reduce((sum, d) => sum + (d.downloadedSize || 0), 0);
   const overallProgress = totalSize > 0 ? Math.floor((downloadedSize / totalSize) * 100) : 0;
@@ -127,6 +165,25 @@ const CurrentDownloads: FC<CurrentDownloadsProps> = ({ downloads }) => {
                     <p className="text-xs text-gray-500">{download.filePath}</p>
                   </div>
                   <div className="flex items-center mt-2 space-x-2 sm:mt-0">
+                    <Select
+                      value={download.rateLimit ? String(download.rateLimit) : NO_RATE_LIMIT}
+                      onValueChange={(value) => rateLimitMutation.mutate({
+                        downloadId: download.id,
+                        rateLimit: value === NO_RATE_LIMIT ? null : parseInt(value, 10),
+                      })}
+                    >
+                      <SelectTrigger className="w-28 h-8 text-xs" title="Speed limit for this download">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_RATE_LIMIT}>No limit</SelectItem>
+                        {rateLimitOptions(download.rateLimit).map((rate) => (
+                          <SelectItem key={rate} value={String(rate)}>
+                            {formatBytes(rate, 0)}/s
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -156,14 +213,23 @@ const CurrentDownloads: FC<CurrentDownloadsProps> = ({ downloads }) => {
                     <span>
                       {formatBytes(download.downloadedSize || 0)} / {formatBytes(download.totalSize || 0)} ({download.progress || 0}%)
                     </span>
-                    <span>
-                      {download.speed ? `${formatBytes(download.speed)}/s` : "0 B/s"} - 
-                      {download.speed && download.totalSize && download.downloadedSize
-                        ? ` ${formatTimeRemaining(download.totalSize - download.downloadedSize, download.speed)}`
-                        : " calculating..."}
-                    </span>
+                    {download.status === "retrying" ? (
+                      <span className="text-yellow-600">
+                        {formatRetryStatus(download.nextRetryAt, download.attempts || 0, maxAttempts)}
+                      </span>
+                    ) : (
+                      <span>
+                        {download.speed ? `${formatBytes(download.speed)}/s` : "0 B/s"} - 
+                        {download.speed && download.totalSize && download.downloadedSize
+                          ? ` ${formatTimeRemaining(download.totalSize - download.downloadedSize, download.speed)}`
+                          : " calculating..."}
+                      </span>
+                    )}
                   </div>
                   <ProgressBar progress={download.progress || 0} />
+                  {download.status === "retrying" && download.lastError && (
+                    <p className="mt-1 text-xs text-gray-500">Last error: {download.lastError}</p>
+                  )}
                 </div>
               </div>
             ))
@@ -21,7 +21,7 @@ const DownloadHistory: FC<DownloadHistoryProps> = ({ downloads }) => {
   const itemsPerPage = 5;
 
   const uploadMutation = useMutation({
-    mutationFn: (downloadId: number) => api.uploadToRclone([downloadId], "remote:anime/"),
+    mutationFn: (downloadId: number) => api.uploadToRclone([downloadId]),
     onSuccess: () => {
       toast({
         title: "Upload started",
@@ -72,7 +72,7 @@ const DownloadHistory: FC<DownloadHistoryProps> = ({ downloads }) => {
 
   // Filter completed and error downloads
   const completedDownloads = downloads.filter(
-    (d) => d.status === "completed" || d.status === "uploaded" || d.status === "error"
+    (d) => d.status === "completed" || d.status === "uploading" || d.status === "uploaded" || d.status === "error"
   );
 
   // Pagination
@@ -86,6 +86,8 @@ const DownloadHistory: FC<DownloadHistoryProps> = ({ downloads }) => {
     switch (status) {
       case "completed":
         return <Badge className="bg-green-100 text-green-800">Completed</Badge>;
+      case "uploading":
+        return <Badge className="bg-indigo-100 text-indigo-800">Uploading</Badge>;
       case "uploaded":
         return <Badge className="bg-indigo-100 text-indigo-800">Uploaded</Badge>;
       case "error":
@@ -1,4 +1,5 @@
-import { FC, useState } from "react";
+import { FC, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Cloud } from "lucide-react";
 import {
   Dialog,
@@ -12,12 +13,15 @@ import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { Series } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { api } from "@/lib/api";
+import { formatQualityOption } from "@/lib/utils";
+import { Series, qualityOptions } from "@shared/schema";
 
 interface DownloadModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (downloadPath: string) => void;
+  onConfirm: (downloadPath: string, quality: string) => void;
   series: Series;
   totalEpisodes: number;
 }
@@ -31,10 +35,23 @@ const DownloadModal: FC<DownloadModalProps> = ({
 }) => {
   const [downloadOption, setDownloadOption] = useState("all");
   const [downloadPath, setDownloadPath] = useState(sanitizePathName(series.title));
+  const [quality, setQuality] = useState("highest");
+
+  // Start from the default quality set on the settings page
+  const { data: settingsData } = useQuery({
+    queryKey: ["/api/settings"],
+    queryFn: api.getSettings,
+  });
+
+  useEffect(() => {
+    if (settingsData?.settings) {
+      setQuality(settingsData.settings.defaultQuality);
+    }
+  }, [settingsData]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onConfirm(downloadPath);
+    onConfirm(downloadPath, quality);
   };
 
   // Function to sanitize file path name
@@ -87,6 +104,22 @@ const DownloadModal: FC<DownloadModalProps> = ({
                 />
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="downloadQuality">Quality</Label>
+              <Select value={quality} onValueChange={setQuality}>
+                <SelectTrigger id="downloadQuality">
+                  <SelectValue placeholder="Select quality" />
+                </SelectTrigger>
+                <SelectContent>
+                  {qualityOptions.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {formatQualityOption(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <DialogFooter className="mt-4">
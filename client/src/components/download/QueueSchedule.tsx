@@ -0,0 +1,130 @@
+import { FC, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, Pause, Play } from "lucide-react";
+import { api } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { DownloadSchedule } from "@shared/schema";
+
+const OVERRIDE_DURATIONS = [
+  { minutes: 30, label: "30 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 180, label: "3 hours" },
+  { minutes: 480, label: "8 hours" },
+];
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+/**
+ * Download window status with controls to run or pause the queue for a
+ * while regardless of it
+ */
+const QueueSchedule: FC = () => {
+  const [minutes, setMinutes] = useState("60");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ["/api/downloads/schedule"],
+    queryFn: api.getDownloadSchedule,
+  });
+
+  const overrideMutation = useMutation({
+    mutationFn: (mode: "run" | "pause" | null) => api.overrideDownloadSchedule(mode, parseInt(minutes, 10)),
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/downloads/schedule"], result);
+    },
+    onError: (error) => {
+      toast({
+        title: "Schedule override failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const schedule: DownloadSchedule | undefined = data?.schedule;
+  if (!schedule) return null;
+
+  const hasWindow = !!schedule.windowStart && !!schedule.windowEnd && schedule.windowStart !== schedule.windowEnd;
+
+  return (
+    <Card>
+      <CardContent className="flex flex-col p-4 space-y-3 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
+        <div className="flex items-center space-x-4">
+          <div className="p-2 bg-primary-100 rounded-full">
+            <CalendarClock className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <div className="flex items-center space-x-2">
+              <p className="text-sm font-medium text-gray-900">Download Queue</p>
+              <Badge className={schedule.open ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"}>
+                {schedule.open ? "Running" : "Paused"}
+              </Badge>
+            </div>
+            <p className="text-xs text-gray-500">
+              {schedule.override
+                ? `${schedule.override.mode === "run" ? "Running" : "Paused"} until ${formatTime(schedule.override.until)}, then back to the schedule`
+                : hasWindow
+                  ? `Downloads run from ${schedule.windowStart} to ${schedule.windowEnd}`
+                  : "No download window set, downloads run any time"}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {schedule.override ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => overrideMutation.mutate(null)}
+              disabled={overrideMutation.isPending}
+            >
+              Follow Schedule
+            </Button>
+          ) : (
+            <>
+              <Select value={minutes} onValueChange={setMinutes}>
+                <SelectTrigger className="w-32 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OVERRIDE_DURATIONS.map((duration) => (
+                    <SelectItem key={duration.minutes} value={String(duration.minutes)}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {schedule.open ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => overrideMutation.mutate("pause")}
+                  disabled={overrideMutation.isPending}
+                >
+                  <Pause className="w-4 h-4 mr-2 -ml-1" />
+                  Pause
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={() => overrideMutation.mutate("run")}
+                  disabled={overrideMutation.isPending}
+                >
+                  <Play className="w-4 h-4 mr-2 -ml-1" />
+                  Run Now
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QueueSchedule;
@@ -3,6 +3,8 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Download, List } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import DownloadModal from "./DownloadModal";
 import { api } from "@/lib/api";
 import { Series, Episode } from "@shared/schema";
@@ -16,11 +18,13 @@ interface SeriesInfoProps {
 
 const SeriesInfo: FC<SeriesInfoProps> = ({ series, episodes, onSelectEpisodes }) => {
   const [showModal, setShowModal] = useState(false);
+  const [autoUpload, setAutoUpload] = useState<boolean | null>(series.autoUpload ?? null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const downloadSeriesMutation = useMutation({
-    mutationFn: (downloadPath: string) => api.startDownload("series", series.id, downloadPath),
+    mutationFn: ({ downloadPath, quality }: { downloadPath: string; quality: string }) =>
+      api.startDownload("series", series.id, downloadPath, quality),
     onSuccess: () => {
       toast({
         title: "Download started",
@@ -37,12 +41,34 @@ const SeriesInfo: FC<SeriesInfoProps> = ({ series, episodes, onSelectEpisodes })
     },
   });
 
+  const autoUploadMutation = useMutation({
+    mutationFn: (value: boolean | null) => api.updateSeriesUploadSettings(series.id, value),
+    onSuccess: (data) => {
+      setAutoUpload(data.series.autoUpload ?? null);
+      queryClient.invalidateQueries({ queryKey: ["/api/series"] });
+    },
+    onError: (error) => {
+      setAutoUpload(series.autoUpload ?? null);
+      toast({
+        title: "Settings error",
+        description: `Failed to change auto-upload: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAutoUploadChange = (value: string) => {
+    const next = value === "default" ? null : value === "on";
+    setAutoUpload(next);
+    autoUploadMutation.mutate(next);
+  };
+
   const handleDownloadAll = () => {
     setShowModal(true);
   };
 
-  const handleStartDownload = (downloadPath: string) => {
-    downloadSeriesMutation.mutate(downloadPath);
+  const handleStartDownload = (downloadPath: string, quality: string) => {
+    downloadSeriesMutation.mutate({ downloadPath, quality });
     setShowModal(false);
   };
 
@@ -90,6 +116,23 @@ const SeriesInfo: FC<SeriesInfoProps> = ({ series, episodes, onSelectEpisodes })
                     <List className="w-5 h-5 mr-2 -ml-1" />
                     Select Episodes
                   </Button>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="seriesAutoUpload" className="text-sm text-gray-700">Auto-upload</Label>
+                    <Select
+                      value={autoUpload === null ? "default" : autoUpload ? "on" : "off"}
+                      onValueChange={handleAutoUploadChange}
+                      disabled={autoUploadMutation.isPending}
+                    >
+                      <SelectTrigger id="seriesAutoUpload" className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Use default</SelectItem>
+                        <SelectItem value="on">Always upload</SelectItem>
+                        <SelectItem value="off">Never upload</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
               </div>
             </div>
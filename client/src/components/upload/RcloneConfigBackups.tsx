@@ -0,0 +1,143 @@
+import { FC, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, RotateCcw } from "lucide-react";
+import { api } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { ConfigDiffLine, RcloneConfigBackup } from "@shared/schema";
+
+const diffLineStyles: Record<ConfigDiffLine["type"], string> = {
+  same: "text-gray-500",
+  added: "bg-green-50 text-green-800",
+  removed: "bg-red-50 text-red-800",
+};
+
+const diffLinePrefix: Record<ConfigDiffLine["type"], string> = {
+  same: " ",
+  added: "+",
+  removed: "-",
+};
+
+interface BackupRowProps {
+  backup: RcloneConfigBackup;
+  onRestore: (id: string) => void;
+  isRestoring: boolean;
+}
+
+/**
+ * One backup with its remotes, and the diff restoring it would apply
+ */
+const BackupRow: FC<BackupRowProps> = ({ backup, onRestore, isRestoring }) => {
+  const [expanded, setExpanded] = useState(false);
+  const changes = backup.diff.filter((line) => line.type !== "same").length;
+
+  return (
+    <div className="border rounded-md">
+      <div className="flex items-center justify-between p-3">
+        <button
+          type="button"
+          className="flex items-center min-w-0 space-x-2 text-left"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+          <div className="min-w-0">
+            <p className="text-sm font-medium">{new Date(backup.createdAt).toLocaleString()}</p>
+            <p className="text-xs text-gray-500 truncate">
+              {backup.error
+                ? backup.error
+                : `${backup.remotes.join(", ") || "No remotes"} · ${changes ? `${changes} changed line(s)` : "same as current"}`}
+            </p>
+          </div>
+        </button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onRestore(backup.id)}
+          disabled={!!backup.error || changes === 0 || isRestoring}
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Restore
+        </Button>
+      </div>
+
+      {expanded && !backup.error && (
+        <pre className="px-3 py-2 overflow-x-auto text-xs border-t bg-gray-50">
+          {backup.diff.map((line, index) => (
+            <div key={index} className={diffLineStyles[line.type]}>
+              {diffLinePrefix[line.type]} {line.text}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Backups taken each time the rclone config was replaced, newest first,
+ * with a diff against the current config so a bad change can be rolled back
+ */
+const RcloneConfigBackups: FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["/api/rclone/config/backups"],
+    queryFn: api.getRcloneConfigBackups,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: api.restoreRcloneConfigBackup,
+    onSuccess: () => {
+      toast({
+        title: "Configuration Restored",
+        description: "The previous configuration was backed up before the restore.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/rclone/config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rclone/config/backups"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rclone/remotes"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRestore = (id: string) => {
+    if (confirm("Replace the current rclone configuration with this backup?")) {
+      restoreMutation.mutate(id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center space-x-2">
+        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+        <span className="text-sm text-gray-500">Loading backups...</span>
+      </div>
+    );
+  }
+
+  const backups = data?.backups || [];
+
+  return (
+    <div className="space-y-2">
+      {backups.length === 0 && (
+        <p className="text-sm text-gray-500">No backups yet, one is taken whenever the configuration changes.</p>
+      )}
+      {backups.map((backup) => (
+        <BackupRow
+          key={backup.id}
+          backup={backup}
+          onRestore={handleRestore}
+          isRestoring={restoreMutation.isPending}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default RcloneConfigBackups;
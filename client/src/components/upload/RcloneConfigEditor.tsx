@@ -0,0 +1,257 @@
+import { FC, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Cloud, Pencil, Plus, Trash, Upload, X } from "lucide-react";
+import { api } from "@/lib/api";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { isSecretOption, type RcloneRemote } from "@shared/schema";
+
+interface RemoteFormProps {
+  initial?: RcloneRemote; // unset when adding a remote
+  onSave: (remote: RcloneRemote) => void;
+  onCancel: () => void;
+  isSaving: boolean;
+}
+
+type OptionRow = { key: string; value: string };
+
+/**
+ * Name, type and key = value options of one remote. Secrets come back
+ * redacted and are kept as stored unless they are replaced.
+ */
+const RemoteForm: FC<RemoteFormProps> = ({ initial, onSave, onCancel, isSaving }) => {
+  const [name, setName] = useState(initial?.name || "");
+  const [type, setType] = useState(initial?.type || "");
+  const [options, setOptions] = useState<OptionRow[]>(
+    () => Object.entries(initial?.options || {}).map(([key, value]) => ({ key, value }))
+  );
+
+  const updateOption = (index: number, row: Partial<OptionRow>) => {
+    setOptions(options.map((option, i) => (i === index ? { ...option, ...row } : option)));
+  };
+
+  const handleSave = () => {
+    const filled = options.filter((option) => option.key.trim());
+    onSave({
+      name: name.trim(),
+      type: type.trim(),
+      options: Object.fromEntries(filled.map((option) => [option.key.trim(), option.value.trim()])),
+    });
+  };
+
+  return (
+    <div className="p-3 space-y-3 border border-dashed rounded-md">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="remoteName">Name</Label>
+          <Input id="remoteName" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., gdrive" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="remoteType">Type</Label>
+          <Input id="remoteType" value={type} onChange={(e) => setType(e.target.value)} placeholder="e.g., drive, s3, b2" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Options</Label>
+        {options.map((option, index) => (
+          <div key={index} className="flex space-x-2">
+            <Input
+              className="font-mono text-sm"
+              value={option.key}
+              onChange={(e) => updateOption(index, { key: e.target.value })}
+              placeholder="key"
+            />
+            <Input
+              className="font-mono text-sm"
+              type={isSecretOption(option.key.trim()) ? "password" : "text"}
+              value={option.value}
+              onChange={(e) => updateOption(index, { value: e.target.value })}
+              placeholder="value"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setOptions(options.filter((_, i) => i !== index))}
+              title="Remove option"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => setOptions([...options, { key: "", value: "" }])}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Option
+        </Button>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={!name.trim() || !type.trim() || isSaving}>
+          {isSaving && (
+            <div className="w-4 h-4 mr-2 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+          )}
+          Save Remote
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Add, edit and delete the remotes in rclone.conf, or import a whole file.
+ * Every change is checked by rclone before it replaces the config.
+ */
+const RcloneConfigEditor: FC = () => {
+  // Name of the remote being edited, "" while adding one, null when neither
+  const [editing, setEditing] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["/api/rclone/config"],
+    queryFn: api.getRcloneConfig,
+  });
+
+  const onSuccess = (title: string) => () => {
+    toast({ title });
+    setEditing(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/rclone/config"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/rclone/config/backups"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/rclone/remotes"] });
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: `${error}`, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (remote: RcloneRemote) => (editing
+      ? api.updateRcloneRemote(editing, remote)
+      : api.addRcloneRemote(remote)),
+    onSuccess: onSuccess("Remote saved"),
+    onError: onError("Could not save remote"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteRcloneRemote,
+    onSuccess: onSuccess("Remote deleted"),
+    onError: onError("Could not delete remote"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: api.uploadRcloneConfig,
+    onSuccess: onSuccess("Configuration imported"),
+    onError: onError("Import failed"),
+  });
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    importMutation.mutate(await file.text());
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center space-x-2">
+        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+        <span className="text-sm text-gray-500">Loading configuration...</span>
+      </div>
+    );
+  }
+
+  const remotes = data?.remotes || [];
+
+  return (
+    <div className="space-y-4">
+      <Alert className="bg-blue-50 border-blue-200">
+        <Cloud className="h-4 w-4" />
+        <AlertTitle>Rclone Remotes</AlertTitle>
+        <AlertDescription>
+          Credentials such as tokens and passwords are never shown; leave them as they are to keep them.
+          Importing an rclone.conf replaces every remote.
+        </AlertDescription>
+      </Alert>
+
+      {error && (
+        <p className="text-sm text-red-600">{String(error)}</p>
+      )}
+
+      {remotes.map((remote) => (
+        editing === remote.name ? (
+          <RemoteForm
+            key={remote.name}
+            initial={remote}
+            onSave={(updated) => saveMutation.mutate(updated)}
+            onCancel={() => setEditing(null)}
+            isSaving={saveMutation.isPending}
+          />
+        ) : (
+          <div key={remote.name} className="flex items-center justify-between p-3 border rounded-md">
+            <div className="flex items-center space-x-2 min-w-0">
+              <span className="font-medium truncate">{remote.name}</span>
+              <Badge variant="secondary">{remote.type}</Badge>
+            </div>
+            <div className="flex space-x-1">
+              <Button variant="ghost" size="sm" onClick={() => setEditing(remote.name)} title="Edit remote">
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate(remote.name)}
+                disabled={deleteMutation.isPending}
+                title="Delete remote"
+              >
+                <Trash className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )
+      ))}
+
+      {remotes.length === 0 && editing === null && (
+        <p className="text-sm text-gray-500">No remotes configured yet.</p>
+      )}
+
+      {editing === "" && (
+        <RemoteForm
+          onSave={(remote) => saveMutation.mutate(remote)}
+          onCancel={() => setEditing(null)}
+          isSaving={saveMutation.isPending}
+        />
+      )}
+
+      <div className="flex justify-between">
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importMutation.isPending}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Import rclone.conf
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".conf,text/plain"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+        <Button onClick={() => setEditing("")} disabled={editing !== null}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Remote
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RcloneConfigEditor;
@@ -0,0 +1,162 @@
+import { FC, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Folder, FolderOpen, FolderPlus } from "lucide-react";
+import { api } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+
+interface RemoteFolderPickerProps {
+  remote: string;
+  value: string; // selected folder, relative to the remote's root
+  onChange: (path: string) => void;
+}
+
+interface FolderNodeProps {
+  remote: string;
+  path: string;
+  name: string;
+  depth: number;
+  selected: string;
+  onSelect: (path: string) => void;
+  defaultExpanded?: boolean;
+}
+
+const trimSlashes = (value: string) => value.replace(/^\/+|\/+$/g, "");
+
+/**
+ * One folder of the tree; its subfolders are listed the first time it opens
+ */
+const FolderNode: FC<FolderNodeProps> = ({ remote, path, name, depth, selected, onSelect, defaultExpanded = false }) => {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["/api/rclone/ls", remote, path],
+    queryFn: () => api.listRemoteDirectory(remote, path),
+    enabled: expanded,
+  });
+
+  const folders = data?.entries.filter((entry) => entry.isDir) || [];
+  const isSelected = trimSlashes(selected) === path;
+
+  return (
+    <div>
+      <div
+        className={`flex items-center py-1 pr-2 rounded cursor-pointer hover:bg-gray-100 ${isSelected ? "bg-primary-50 text-primary" : ""}`}
+        style={{ paddingLeft: `${depth * 16 + 4}px` }}
+        onClick={() => onSelect(path)}
+      >
+        <button
+          type="button"
+          className="p-0.5 text-gray-400 hover:text-gray-600"
+          onClick={(e) => {
+            e.stopPropagation();
+            setExpanded(!expanded);
+          }}
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        {expanded ? <FolderOpen className="w-4 h-4 mx-1 text-yellow-500" /> : <Folder className="w-4 h-4 mx-1 text-yellow-500" />}
+        <span className="text-sm truncate">{name}</span>
+      </div>
+
+      {expanded && (
+        <div>
+          {isLoading && (
+            <p className="py-1 text-xs text-gray-500" style={{ paddingLeft: `${(depth + 1) * 16 + 8}px` }}>
+              Loading...
+            </p>
+          )}
+          {error && (
+            <p className="py-1 text-xs text-red-600" style={{ paddingLeft: `${(depth + 1) * 16 + 8}px` }}>
+              {String(error)}
+            </p>
+          )}
+          {folders.map((folder) => (
+            <FolderNode
+              key={folder.path}
+              remote={remote}
+              path={folder.path}
+              name={folder.name}
+              depth={depth + 1}
+              selected={selected}
+              onSelect={onSelect}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Browse the folders of an rclone remote, pick one, or create a new one
+ * inside the selected folder
+ */
+const RemoteFolderPicker: FC<RemoteFolderPickerProps> = ({ remote, value, onChange }) => {
+  const [newFolderName, setNewFolderName] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const parent = trimSlashes(value);
+
+  const mkdirMutation = useMutation({
+    mutationFn: (path: string) => api.makeRemoteDirectory(remote, path),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rclone/ls", remote, parent] });
+      setNewFolderName("");
+      onChange(data.path);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not create folder",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreateFolder = () => {
+    const name = trimSlashes(newFolderName.trim());
+    if (!name) return;
+    mkdirMutation.mutate(parent ? `${parent}/${name}` : name);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-y-auto border rounded-md max-h-64">
+        <FolderNode
+          key={remote}
+          remote={remote}
+          path=""
+          name={remote}
+          depth={0}
+          selected={value}
+          onSelect={onChange}
+          defaultExpanded
+        />
+      </div>
+
+      <div className="flex space-x-2">
+        <Input
+          placeholder={`New folder in ${remote}${parent}`}
+          value={newFolderName}
+          onChange={(e) => setNewFolderName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleCreateFolder();
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleCreateFolder}
+          disabled={!newFolderName.trim() || mkdirMutation.isPending}
+          title="Create folder"
+        >
+          <FolderPlus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RemoteFolderPicker;
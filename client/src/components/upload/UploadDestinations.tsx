@@ -0,0 +1,273 @@
+import { FC, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash, X } from "lucide-react";
+import { api } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { pathTemplatePlaceholders, type UploadDestination, type UploadRule, type Series } from "@shared/schema";
+
+// Select value for a rule that applies to every series
+const ALL_SERIES = "all";
+
+const DESTINATIONS_KEY = ["/api/upload-destinations"];
+
+interface DestinationRowProps {
+  destination: UploadDestination;
+  rules: UploadRule[];
+  series: Series[];
+}
+
+/**
+ * One destination with its enable toggle and the series routed to it
+ */
+const DestinationRow: FC<DestinationRowProps> = ({ destination, rules, series }) => {
+  const [ruleSeries, setRuleSeries] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: `${error}`, variant: "destructive" });
+  };
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: DESTINATIONS_KEY });
+
+  const updateMutation = useMutation({
+    mutationFn: (enabled: boolean) => api.updateUploadDestination(destination.id, { enabled }),
+    onSuccess,
+    onError: onError("Could not update destination"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteUploadDestination(destination.id),
+    onSuccess,
+    onError: onError("Could not delete destination"),
+  });
+
+  const addRuleMutation = useMutation({
+    mutationFn: (value: string) => api.createUploadRule({
+      destinationId: destination.id,
+      seriesId: value === ALL_SERIES ? null : parseInt(value),
+    }),
+    onSuccess: () => {
+      setRuleSeries("");
+      onSuccess();
+    },
+    onError: onError("Could not add rule"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (ruleId: number) => api.deleteUploadRule(ruleId),
+    onSuccess,
+    onError: onError("Could not remove rule"),
+  });
+
+  const getSeriesTitle = (seriesId: number | null) => {
+    if (seriesId === null) return "All series";
+    return series.find((s) => s.id === seriesId)?.title || `Series ${seriesId}`;
+  };
+
+  return (
+    <div className="p-3 space-y-3 border rounded-md">
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <p className="font-medium truncate">{destination.name}</p>
+          <p className="text-xs text-gray-500 truncate">
+            {destination.remote}{destination.pathTemplate}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={destination.enabled}
+            onCheckedChange={(checked) => updateMutation.mutate(checked)}
+            title={destination.enabled ? "Disable destination" : "Enable destination"}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+            title="Delete destination"
+          >
+            <Trash className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {rules.length === 0 && (
+          <span className="text-xs text-gray-500">No series are routed here yet</span>
+        )}
+        {rules.map((rule) => (
+          <Badge key={rule.id} variant="secondary" className="flex items-center gap-1">
+            {getSeriesTitle(rule.seriesId)}
+            <button
+              type="button"
+              className="hover:text-red-600"
+              onClick={() => deleteRuleMutation.mutate(rule.id)}
+              title="Remove rule"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+
+      <div className="flex space-x-2">
+        <Select value={ruleSeries} onValueChange={setRuleSeries}>
+          <SelectTrigger>
+            <SelectValue placeholder="Route a series here" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_SERIES}>All series</SelectItem>
+            {series.map((s) => (
+              <SelectItem key={s.id} value={String(s.id)}>
+                {s.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={() => addRuleMutation.mutate(ruleSeries)}
+          disabled={!ruleSeries || addRuleMutation.isPending}
+          title="Add rule"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Manage upload destinations and the rules that route series to them.
+ * Completed downloads are auto-uploaded to every matching destination.
+ */
+const UploadDestinations: FC = () => {
+  const [name, setName] = useState("");
+  const [remote, setRemote] = useState("");
+  const [pathTemplate, setPathTemplate] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: DESTINATIONS_KEY,
+    queryFn: api.getUploadDestinations,
+  });
+
+  const { data: remotesData } = useQuery({
+    queryKey: ["/api/rclone/remotes"],
+    queryFn: api.getRcloneRemotes,
+  });
+
+  const { data: seriesData } = useQuery({
+    queryKey: ["/api/series"],
+    queryFn: api.getAllSeries,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: api.createUploadDestination,
+    onSuccess: () => {
+      setName("");
+      setPathTemplate("");
+      queryClient.invalidateQueries({ queryKey: DESTINATIONS_KEY });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not add destination",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const destinations = data?.destinations || [];
+  const rules = data?.rules || [];
+  const series = seriesData?.series || [];
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Upload Destinations</CardTitle>
+        <CardDescription>
+          Completed downloads of a series are uploaded to every destination it is routed to.
+          Without any, the default remote and path are used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+            <span className="text-sm text-gray-500">Loading destinations...</span>
+          </div>
+        ) : (
+          destinations.map((destination) => (
+            <DestinationRow
+              key={destination.id}
+              destination={destination}
+              rules={rules.filter((rule) => rule.destinationId === destination.id)}
+              series={series}
+            />
+          ))
+        )}
+
+        <div className="p-3 space-y-3 border border-dashed rounded-md">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="destinationName">Name</Label>
+              <Input
+                id="destinationName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Drive mirror"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="destinationRemote">Remote</Label>
+              <Select value={remote} onValueChange={setRemote}>
+                <SelectTrigger id="destinationRemote">
+                  <SelectValue placeholder="Select remote" />
+                </SelectTrigger>
+                <SelectContent>
+                  {remotesData?.remotes.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {r}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="destinationPath">Path Template</Label>
+            <Input
+              id="destinationPath"
+              value={pathTemplate}
+              onChange={(e) => setPathTemplate(e.target.value)}
+              placeholder="e.g., anime/{series}/Season {season}"
+            />
+            <p className="text-xs text-gray-500">
+              Folder on the remote, may use {pathTemplatePlaceholders.join(", ")}
+            </p>
+          </div>
+          <Button
+            className="w-full"
+            variant="outline"
+            onClick={() => createMutation.mutate({ name: name.trim(), remote, pathTemplate: pathTemplate.trim() })}
+            disabled={!name.trim() || !remote || createMutation.isPending}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Destination
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UploadDestinations;
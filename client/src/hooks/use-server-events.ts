@@ -0,0 +1,64 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { AppEvent, Download } from "@shared/schema";
+import type { DownloadsWithDetailsResponse } from "@/lib/api";
+
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Subscribe to the server's /ws event stream. Download events are merged
+ * into the cached /api/downloads list so nothing has to refetch it; every
+ * event is also handed to onEvent.
+ */
+export function useServerEvents(onEvent?: (event: AppEvent) => void) {
+  const queryClient = useQueryClient();
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const applyDownload = (download: Download) => {
+      const cached = queryClient.getQueryData<DownloadsWithDetailsResponse>(["/api/downloads"]);
+
+      // New downloads need their episode and series, fetch the list once
+      if (!cached || !cached.downloads.some(d => d.id === download.id)) {
+        queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
+        return;
+      }
+
+      queryClient.setQueryData<DownloadsWithDetailsResponse>(["/api/downloads"], {
+        downloads: cached.downloads.map(d => (d.id === download.id ? { ...d, ...download } : d)),
+      });
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onmessage = (message) => {
+        const event = JSON.parse(message.data) as AppEvent;
+        if (event.type.startsWith("download:") && "download" in event) {
+          applyDownload(event.download);
+        }
+        onEventRef.current?.(event);
+      };
+
+      socket.onclose = () => {
+        if (!closed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [queryClient]);
+}
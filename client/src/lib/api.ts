@@ -3,11 +3,32 @@ import {
   Series, 
   Episode,
   Download,
+  DownloadSchedule,
+  Settings,
+  UpdateSettings,
+  Upload,
+  UploadDestination,
+  InsertUploadDestination,
+  UploadRule,
+  InsertUploadRule,
+  RcloneRemote,
+  RcloneConfigBackup,
   downloadRequestSchema, 
   urlFetchSchema,
   downloadControlSchema,
+  downloadRateLimitSchema,
+  downloadScheduleOverrideSchema,
+  updateSettingsSchema,
+  seriesUploadSettingsSchema,
+  RemoteEntry,
   rcloneUploadSchema,
-  rcloneConfigSchema
+  rcloneListSchema,
+  rcloneMkdirSchema,
+  rcloneConfigSchema,
+  rcloneRemoteSchema,
+  insertUploadDestinationSchema,
+  updateUploadDestinationSchema,
+  insertUploadRuleSchema
 } from "@shared/schema";
 
 // Types for API responses
@@ -30,6 +51,23 @@ export interface DownloadsWithDetailsResponse {
   }>;
 }
 
+export interface SettingsResponse {
+  settings: Settings;
+}
+
+export interface RetryPolicyResponse {
+  retryPolicy: {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    retryableStatusCodes: number[];
+  };
+}
+
+export interface SeriesUpdateResponse {
+  series: Series;
+}
+
 export interface SeriesResponse {
   series: Series[];
 }
@@ -44,7 +82,32 @@ export interface RcloneRemotesResponse {
 }
 
 export interface RcloneUploadResponse {
-  results: { [key: number]: boolean };
+  uploads: Upload[];
+}
+
+export interface RemoteListResponse {
+  entries: RemoteEntry[];
+}
+
+export interface UploadsWithDetailsResponse {
+  uploads: Array<Upload & {
+    episode?: Episode;
+    series?: Series;
+  }>;
+  heldUntil: string | null; // "HH:MM" while queued uploads are held
+}
+
+export interface UploadResponse {
+  upload: Upload;
+}
+
+export interface RcloneConfigResponse {
+  remotes: RcloneRemote[]; // credentials redacted
+}
+
+export interface UploadDestinationsResponse {
+  destinations: UploadDestination[];
+  rules: UploadRule[];
 }
 
 export interface StorageInfoResponse {
@@ -65,8 +128,8 @@ export const api = {
   },
 
   // Start a download for an episode or series
-  startDownload: async (type: 'episode' | 'series', id: number, downloadPath?: string): Promise<DownloadResponse> => {
-    const parsedData = downloadRequestSchema.parse({ type, id, downloadPath });
+  startDownload: async (type: 'episode' | 'series', id: number, downloadPath?: string, quality?: string): Promise<DownloadResponse> => {
+    const parsedData = downloadRequestSchema.parse({ type, id, downloadPath, quality });
     const response = await apiRequest('POST', '/api/downloads', parsedData);
     return await response.json();
   },
@@ -78,6 +141,45 @@ export const api = {
     return await response.json();
   },
 
+  // Get application settings
+  getSettings: async (): Promise<SettingsResponse> => {
+    const response = await apiRequest('GET', '/api/settings');
+    return await response.json();
+  },
+
+  // Save application settings
+  updateSettings: async (data: UpdateSettings): Promise<SettingsResponse> => {
+    const parsedData = updateSettingsSchema.parse(data);
+    const response = await apiRequest('PUT', '/api/settings', parsedData);
+    return await response.json();
+  },
+
+  // Get the retry policy for failed downloads
+  getRetryPolicy: async (): Promise<RetryPolicyResponse> => {
+    const response = await apiRequest('GET', '/api/downloads/retry-policy');
+    return await response.json();
+  },
+
+  // Get the download window and whether the queue is running
+  getDownloadSchedule: async (): Promise<{ schedule: DownloadSchedule }> => {
+    const response = await apiRequest('GET', '/api/downloads/schedule');
+    return await response.json();
+  },
+
+  // Run or pause the queue for a while regardless of the window, null follows it again
+  overrideDownloadSchedule: async (mode: 'run' | 'pause' | null, minutes?: number): Promise<{ schedule: DownloadSchedule }> => {
+    const parsedData = downloadScheduleOverrideSchema.parse({ mode, minutes });
+    const response = await apiRequest('POST', '/api/downloads/schedule/override', parsedData);
+    return await response.json();
+  },
+
+  // Set a download's own speed limit in bytes per second, null lifts it
+  setDownloadRateLimit: async (downloadId: number, rateLimit: number | null): Promise<{ download: Download }> => {
+    const parsedData = downloadRateLimitSchema.parse({ rateLimit });
+    const response = await apiRequest('PATCH', `/api/downloads/${downloadId}`, parsedData);
+    return await response.json();
+  },
+
   // Get all downloads
   getAllDownloads: async (): Promise<DownloadsWithDetailsResponse> => {
     const response = await apiRequest('GET', '/api/downloads');
@@ -102,32 +204,143 @@ export const api = {
     return await response.json();
   },
 
+  // Override the auto-upload setting for a series, null follows the setting
+  updateSeriesUploadSettings: async (id: number, autoUpload: boolean | null): Promise<SeriesUpdateResponse> => {
+    const parsedData = seriesUploadSettingsSchema.parse({ autoUpload });
+    const response = await apiRequest('PATCH', `/api/series/${id}`, parsedData);
+    return await response.json();
+  },
+
   // Get Rclone remotes
   getRcloneRemotes: async (): Promise<RcloneRemotesResponse> => {
     const response = await apiRequest('GET', '/api/rclone/remotes');
     return await response.json();
   },
 
-  // Upload files to Rclone remote
-  uploadToRclone: async (downloadIds: number[], remotePath: string): Promise<RcloneUploadResponse> => {
+  // Upload files to Rclone remote, the default one from the settings when no path is given
+  uploadToRclone: async (downloadIds: number[], remotePath?: string): Promise<RcloneUploadResponse> => {
     const parsedData = rcloneUploadSchema.parse({ downloadIds, remotePath });
     const response = await apiRequest('POST', '/api/rclone/upload', parsedData);
     return await response.json();
   },
+
+  // List a directory on a remote
+  listRemoteDirectory: async (remote: string, path: string = ''): Promise<RemoteListResponse> => {
+    const parsedData = rcloneListSchema.parse({ remote, path });
+    const params = new URLSearchParams(parsedData);
+    const response = await apiRequest('GET', `/api/rclone/ls?${params}`);
+    return await response.json();
+  },
+
+  // Create a directory on a remote
+  makeRemoteDirectory: async (remote: string, path: string): Promise<{ path: string }> => {
+    const parsedData = rcloneMkdirSchema.parse({ remote, path });
+    const response = await apiRequest('POST', '/api/rclone/mkdir', parsedData);
+    return await response.json();
+  },
+
+  // Get upload history
+  getUploads: async (): Promise<UploadsWithDetailsResponse> => {
+    const response = await apiRequest('GET', '/api/uploads');
+    return await response.json();
+  },
+
+  // Queue a failed or cancelled upload again
+  retryUpload: async (uploadId: number): Promise<UploadResponse> => {
+    const response = await apiRequest('POST', `/api/uploads/${uploadId}/retry`);
+    return await response.json();
+  },
+
+  // Cancel a queued or running upload
+  cancelUpload: async (uploadId: number): Promise<UploadResponse> => {
+    const response = await apiRequest('POST', `/api/uploads/${uploadId}/cancel`);
+    return await response.json();
+  },
+
+  // Get upload destinations and their routing rules
+  getUploadDestinations: async (): Promise<UploadDestinationsResponse> => {
+    const response = await apiRequest('GET', '/api/upload-destinations');
+    return await response.json();
+  },
+
+  // Add an upload destination
+  createUploadDestination: async (destination: InsertUploadDestination): Promise<{ destination: UploadDestination }> => {
+    const parsedData = insertUploadDestinationSchema.parse(destination);
+    const response = await apiRequest('POST', '/api/upload-destinations', parsedData);
+    return await response.json();
+  },
+
+  // Update an upload destination
+  updateUploadDestination: async (id: number, data: Partial<InsertUploadDestination>): Promise<{ destination: UploadDestination }> => {
+    const parsedData = updateUploadDestinationSchema.parse(data);
+    const response = await apiRequest('PATCH', `/api/upload-destinations/${id}`, parsedData);
+    return await response.json();
+  },
+
+  // Delete an upload destination and its rules
+  deleteUploadDestination: async (id: number): Promise<{ success: boolean }> => {
+    const response = await apiRequest('DELETE', `/api/upload-destinations/${id}`);
+    return await response.json();
+  },
+
+  // Route a series, or every series with a null seriesId, to a destination
+  createUploadRule: async (rule: InsertUploadRule): Promise<{ rule: UploadRule }> => {
+    const parsedData = insertUploadRuleSchema.parse(rule);
+    const response = await apiRequest('POST', '/api/upload-rules', parsedData);
+    return await response.json();
+  },
+
+  // Remove an upload rule
+  deleteUploadRule: async (id: number): Promise<{ success: boolean }> => {
+    const response = await apiRequest('DELETE', `/api/upload-rules/${id}`);
+    return await response.json();
+  },
   
-  // Get Rclone configuration
-  getRcloneConfig: async (): Promise<{ configContent: string | null }> => {
+  // Get the configured Rclone remotes
+  getRcloneConfig: async (): Promise<RcloneConfigResponse> => {
     const response = await apiRequest('GET', '/api/rclone/config');
     return await response.json();
   },
   
-  // Upload Rclone configuration
-  uploadRcloneConfig: async (configContent: string): Promise<{ success: boolean, message: string }> => {
+  // Replace the Rclone configuration with an imported rclone.conf
+  uploadRcloneConfig: async (configContent: string): Promise<{ success: boolean, message: string } & RcloneConfigResponse> => {
     const parsedData = rcloneConfigSchema.parse({ configContent });
     const response = await apiRequest('POST', '/api/rclone/config', parsedData);
     return await response.json();
   },
 
+  // Get backups of the Rclone configuration with their diffs
+  getRcloneConfigBackups: async (): Promise<{ backups: RcloneConfigBackup[] }> => {
+    const response = await apiRequest('GET', '/api/rclone/config/backups');
+    return await response.json();
+  },
+
+  // Roll the Rclone configuration back to a backup
+  restoreRcloneConfigBackup: async (id: string): Promise<{ success: boolean, message: string } & RcloneConfigResponse> => {
+    const response = await apiRequest('POST', `/api/rclone/config/backups/restore/${id}`);
+    return await response.json();
+  },
+
+  // Add an Rclone remote
+  addRcloneRemote: async (remote: RcloneRemote): Promise<{ remote: RcloneRemote }> => {
+    const parsedData = rcloneRemoteSchema.parse(remote);
+    const response = await apiRequest('POST', '/api/rclone/config/remotes', parsedData);
+    return await response.json();
+  },
+
+  // Replace an Rclone remote's settings, redacted values are kept as stored
+  updateRcloneRemote: async (name: string, remote: RcloneRemote): Promise<{ remote: RcloneRemote }> => {
+    const parsedData = rcloneRemoteSchema.parse(remote);
+    const response = await apiRequest('PUT', `/api/rclone/config/remotes/${encodeURIComponent(name)}`, parsedData);
+    return await response.json();
+  },
+
+  // Remove an Rclone remote
+  deleteRcloneRemote: async (name: string): Promise<{ success: boolean }> => {
+    const response = await apiRequest('DELETE', `/api/rclone/config/remotes/${encodeURIComponent(name)}`);
+    return await response.json();
+  },
+
   // Get storage information
   getStorageInfo: async (): Promise<StorageInfoResponse> => {
     const response = await apiRequest('GET', '/api/system/storage');
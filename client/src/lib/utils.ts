@@ -41,6 +41,32 @@ export function formatTimeRemaining(bytesRemaining: number, speed: number): stri
   }
 }
 
+/**
+ * Describe a pending retry, e.g. "retrying in 30s (attempt 2/5)"
+ */
+export function formatRetryStatus(nextRetryAt: Date | string | null, attempts: number, maxAttempts: number): string {
+  const remaining = nextRetryAt
+    ? Math.max(0, Math.ceil((new Date(nextRetryAt).getTime() - Date.now()) / 1000))
+    : 0;
+  const attempt = `(attempt ${attempts + 1}/${maxAttempts})`;
+
+  return remaining > 0 ? `retrying in ${remaining}s ${attempt}` : `retrying now ${attempt}`;
+}
+
+/**
+ * Label for a quality preference, e.g. "Highest available" or "720p"
+ */
+export function formatQualityOption(quality: string): string {
+  switch (quality) {
+    case "highest":
+      return "Highest available";
+    case "lowest":
+      return "Lowest available";
+    default:
+      return quality;
+  }
+}
+
 /**
  * Get a color based on the status of a download
  */
@@ -51,11 +77,13 @@ export function getStatusColor(status: string): string {
     case "downloading":
       return "text-blue-500";
     case "paused":
+    case "retrying":
       return "text-yellow-500";
     case "error":
       return "text-red-500";
     case "queued":
       return "text-gray-500";
+    case "uploading":
     case "uploaded":
       return "text-indigo-500";
     default:
@@ -1,24 +1,35 @@
 import { FC, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Download, Clock, CheckCircle, Info } from "lucide-react";
 import { api } from "@/lib/api";
+import { useServerEvents } from "@/hooks/use-server-events";
 import Sidebar from "@/components/layout/Sidebar";
 import TopNav from "@/components/layout/TopNav";
 import CurrentDownloads from "@/components/download/CurrentDownloads";
 import DownloadHistory from "@/components/download/DownloadHistory";
+import QueueSchedule from "@/components/download/QueueSchedule";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 
 const DownloadsPage: FC = () => {
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
+  const queryClient = useQueryClient();
 
   const { data: downloadsData, isLoading: isDownloadsLoading } = useQuery({
     queryKey: ["/api/downloads"],
     queryFn: api.getAllDownloads,
   });
 
+  // One connection for the whole page: download progress is merged into
+  // the list above, and the queue opens and closes on the server's clock
+  useServerEvents((event) => {
+    if (event.type === "queue:schedule") {
+      queryClient.setQueryData(["/api/downloads/schedule"], { schedule: event.schedule });
+    }
+  });
+
   const activeDownloads = downloadsData?.downloads.filter(
-    (d) => d.status === "downloading" || d.status === "queued" || d.status === "paused"
+    (d) => d.status === "downloading" || d.status === "queued" || d.status === "paused" || d.status === "retrying"
   ) || [];
 
   const completedDownloads = downloadsData?.downloads.filter(
@@ -95,6 +106,11 @@ const DownloadsPage: FC = () => {
               </div>
             </div>
 
+            {/* Download Schedule */}
+            <div className="px-4 mx-auto mt-6 max-w-7xl sm:px-6 md:px-8">
+              <QueueSchedule />
+            </div>
+
             {/* Download Tabs */}
             <div className="px-4 mx-auto mt-6 max-w-7xl sm:px-6 md:px-8">
               <Tabs defaultValue="active">
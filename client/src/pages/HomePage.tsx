@@ -3,6 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Upload } from "lucide-react";
 import { api, FetchUrlResponse } from "@/lib/api";
+import { useServerEvents } from "@/hooks/use-server-events";
 import Sidebar from "@/components/layout/Sidebar";
 import TopNav from "@/components/layout/TopNav";
 import UrlInput from "@/components/download/UrlInput";
@@ -22,6 +23,9 @@ const HomePage: FC = () => {
     queryFn: api.getAllDownloads,
   });
 
+  // Progress and status changes are pushed by the server
+  useServerEvents();
+
   // Reset episode list when fetched data changes
   useEffect(() => {
     if (fetchedData) {
@@ -1,6 +1,6 @@
 import { FC, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Upload, HardDrive, Cloud, AlertCircle, CheckCircle, X } from "lucide-react";
+import { Upload, HardDrive, Cloud, AlertCircle, CheckCircle, X, RotateCw } from "lucide-react";
 import { api } from "@/lib/api";
 import Sidebar from "@/components/layout/Sidebar";
 import TopNav from "@/components/layout/TopNav";
@@ -11,15 +11,42 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { formatBytes } from "@/lib/utils";
+import { useServerEvents } from "@/hooks/use-server-events";
+import { formatBytes, formatTimeRemaining } from "@/lib/utils";
+import { ProgressBar } from "@/components/download/ProgressBar";
+import RemoteFolderPicker from "@/components/upload/RemoteFolderPicker";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { AppEvent, Upload as UploadRecord, UploadProgress } from "@shared/schema";
+
+const getUploadStatusBadge = (upload: UploadRecord) => {
+  switch (upload.status) {
+    case "uploaded":
+      return (
+        <Badge className="bg-indigo-100 text-indigo-800">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          {upload.localRemoved ? "Uploaded (local removed)" : "Uploaded"}
+        </Badge>
+      );
+    case "uploading":
+      return <Badge className="bg-blue-100 text-blue-800">Uploading</Badge>;
+    case "queued":
+      return <Badge className="bg-gray-100 text-gray-800">Queued</Badge>;
+    case "cancelled":
+      return <Badge className="bg-yellow-100 text-yellow-800">Cancelled</Badge>;
+    case "error":
+      return <Badge className="bg-red-100 text-red-800">Failed</Badge>;
+    default:
+      return <Badge className="bg-gray-100 text-gray-800">{upload.status}</Badge>;
+  }
+};
 
 const RcloneUploadPage: FC = () => {
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
   const [remotePath, setRemotePath] = useState("");
   const [selectedRemote, setSelectedRemote] = useState("");
   const [selectedDownloads, setSelectedDownloads] = useState<number[]>([]);
+  const [activeUploads, setActiveUploads] = useState<Record<number, UploadProgress>>({});
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -42,6 +69,66 @@ const RcloneUploadPage: FC = () => {
     },
   });
 
+  // Upload history, refreshed whenever an upload changes status
+  const { data: uploadsData, isLoading: isUploadsLoading } = useQuery({
+    queryKey: ["/api/uploads"],
+    queryFn: api.getUploads,
+  });
+
+  // Track running uploads, keyed by upload ID, from the server's upload events
+  useServerEvents((event: AppEvent) => {
+    if (!event.type.startsWith("upload:")) return;
+
+    switch (event.type) {
+      case "upload:status":
+        setActiveUploads((prev) => {
+          if (event.status === "uploading") {
+            return { ...prev, [event.uploadId]: { bytes: 0, totalBytes: null, speed: 0, eta: null } };
+          }
+          const { [event.uploadId]: _stopped, ...rest } = prev;
+          return rest;
+        });
+        break;
+      case "upload:progress": {
+        const { type, uploadId, downloadId, ...progress } = event;
+        setActiveUploads((prev) => ({ ...prev, [uploadId]: progress }));
+        return;
+      }
+      case "upload:completed":
+      case "upload:error":
+        setActiveUploads((prev) => {
+          const { [event.uploadId]: _finished, ...rest } = prev;
+          return rest;
+        });
+        break;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ["/api/uploads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/downloads/status/completed"] });
+  });
+
+  const retryUploadMutation = useMutation({
+    mutationFn: (uploadId: number) => api.retryUpload(uploadId),
+    onError: (error) => {
+      toast({
+        title: "Retry failed",
+        description: `Error retrying upload: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelUploadMutation = useMutation({
+    mutationFn: (uploadId: number) => api.cancelUpload(uploadId),
+    onError: (error) => {
+      toast({
+        title: "Cancel failed",
+        description: `Error cancelling upload: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Upload mutation
   const uploadMutation = useMutation({
     mutationFn: (data: { downloadIds: number[]; remotePath: string }) =>
@@ -51,7 +138,6 @@ const RcloneUploadPage: FC = () => {
         title: "Upload started",
         description: "Files are being uploaded to the remote.",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
       // Clear selection after successful upload
       setSelectedDownloads([]);
     },
@@ -178,6 +264,13 @@ const RcloneUploadPage: FC = () => {
                             value={remotePath}
                             onChange={(e) => setRemotePath(e.target.value)}
                           />
+                          {selectedRemote && (
+                            <RemoteFolderPicker
+                              remote={selectedRemote}
+                              value={remotePath}
+                              onChange={setRemotePath}
+                            />
+                          )}
                         </div>
 
                         <div className="pt-4">
@@ -286,19 +379,64 @@ const RcloneUploadPage: FC = () => {
               </div>
             </div>
 
-            {/* Recent Uploads */}
+            {/* Running uploads */}
+            {Object.keys(activeUploads).length > 0 && (
+              <div className="px-4 mx-auto mt-6 max-w-7xl sm:px-6 md:px-8">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Uploading</CardTitle>
+                    <CardDescription>Files being copied to the remote right now</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {Object.entries(activeUploads).map(([id, progress]) => {
+                        const upload = uploadsData?.uploads.find((u) => u.id === Number(id));
+                        const percent = progress.totalBytes ? (progress.bytes / progress.totalBytes) * 100 : 0;
+
+                        return (
+                          <div key={id}>
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="font-medium truncate">
+                                {upload?.episode ? `${upload.series?.title} - ${upload.episode.title}` : `Upload ${id}`}
+                              </span>
+                              <span className="text-gray-500 whitespace-nowrap ml-4">
+                                {formatBytes(progress.bytes)}
+                                {progress.totalBytes ? ` / ${formatBytes(progress.totalBytes)}` : ""}
+                                {" · "}{formatBytes(progress.speed)}/s
+                                {" · "}
+                                {progress.totalBytes
+                                  ? formatTimeRemaining(progress.totalBytes - progress.bytes, progress.speed)
+                                  : "calculating..."}
+                              </span>
+                            </div>
+                            <ProgressBar progress={percent} />
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
+            {/* Upload History */}
             <div className="px-4 mx-auto mt-6 max-w-7xl sm:px-6 md:px-8">
               <Card>
                 <CardHeader>
-                  <CardTitle>Recent Uploads</CardTitle>
-                  <CardDescription>History of recently uploaded files</CardDescription>
+                  <CardTitle>Upload History</CardTitle>
+                  <CardDescription>Every upload with its destination, outcome and errors</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  {isDownloadsLoading ? (
+                  {uploadsData?.heldUntil && (
+                    <p className="mb-4 text-sm text-amber-700 bg-amber-50 p-2 rounded-md">
+                      Queued uploads are held until {uploadsData.heldUntil}, the upload hold window set in Settings.
+                    </p>
+                  )}
+                  {isUploadsLoading ? (
                     <div className="flex justify-center my-4">
                       <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
                     </div>
-                  ) : downloadsData?.downloads.filter(d => d.status === "uploaded").length === 0 ? (
+                  ) : !uploadsData?.uploads.length ? (
                     <div className="text-center py-8">
                       <Cloud className="mx-auto h-12 w-12 text-gray-400" />
                       <h3 className="mt-2 text-sm font-medium text-gray-900">No uploads yet</h3>
@@ -308,30 +446,59 @@ const RcloneUploadPage: FC = () => {
                     </div>
                   ) : (
                     <div className="space-y-2">
-                      {downloadsData?.downloads
-                        .filter(d => d.status === "uploaded")
-                        .slice(0, 5)
-                        .map((download) => (
+                      {[...uploadsData.uploads]
+                        .sort((a, b) => b.id - a.id)
+                        .map((upload) => (
                           <div
-                            key={download.id}
+                            key={upload.id}
                             className="flex items-center justify-between p-3 border rounded-md"
                           >
-                            <div>
+                            <div className="min-w-0">
                               <p className="text-sm font-medium">
-                                {download.series?.title} - {download.episode?.title}
+                                {upload.series?.title} - {upload.episode?.title}
                               </p>
-                              <p className="text-xs text-gray-500 mt-1">
-                                {download.filePath}
+                              <p className="text-xs text-gray-500 mt-1 truncate max-w-md">
+                                {upload.remote}{upload.path}
+                              </p>
+                              {upload.error && (
+                                <p className="text-xs text-red-600 mt-1 break-words">{upload.error}</p>
+                              )}
+                              <p className="text-xs text-gray-400 mt-1">
+                                {upload.attempts === 1 ? "1 attempt" : `${upload.attempts} attempts`}
+                                {upload.verified === true && " · verified"}
+                                {upload.verified === false && " · verification failed"}
+                                {upload.completedAt && ` · ${new Date(upload.completedAt).toLocaleString()}`}
                               </p>
                             </div>
-                            <div className="flex items-center space-x-2">
-                              <Badge className="bg-indigo-100 text-indigo-800">
-                                <CheckCircle className="h-3 w-3 mr-1" />
-                                Uploaded
-                              </Badge>
+                            <div className="flex items-center space-x-2 ml-4">
+                              {getUploadStatusBadge(upload)}
                               <Badge variant="outline">
-                                {formatBytes(download.totalSize || 0)}
+                                {upload.totalBytes
+                                  ? `${formatBytes(upload.bytes || 0)} / ${formatBytes(upload.totalBytes)}`
+                                  : formatBytes(upload.bytes || 0)}
                               </Badge>
+                              {(upload.status === "error" || upload.status === "cancelled") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => retryUploadMutation.mutate(upload.id)}
+                                  disabled={retryUploadMutation.isPending}
+                                  title="Retry upload"
+                                >
+                                  <RotateCw className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {(upload.status === "queued" || upload.status === "uploading") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => cancelUploadMutation.mutate(upload.id)}
+                                  disabled={cancelUploadMutation.isPending}
+                                  title="Cancel upload"
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              )}
                             </div>
                           </div>
                         ))}
@@ -1,9 +1,12 @@
 import React, { FC, useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Cog, Save, Trash, HardDrive, MemoryStick, Clock, Cloud, Upload, Download } from "lucide-react";
+import { Cog, Save, Trash, HardDrive, MemoryStick, Clock, Cloud } from "lucide-react";
 import { api } from "@/lib/api";
 import Sidebar from "@/components/layout/Sidebar";
 import TopNav from "@/components/layout/TopNav";
+import RcloneConfigBackups from "@/components/upload/RcloneConfigBackups";
+import RcloneConfigEditor from "@/components/upload/RcloneConfigEditor";
+import UploadDestinations from "@/components/upload/UploadDestinations";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,128 +15,15 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import { formatBytes } from "@/lib/utils";
+import { formatBytes, formatQualityOption } from "@/lib/utils";
+import { qualityOptions, settingsSchema, type Settings } from "@shared/schema";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Textarea } from "@/components/ui/textarea";
-import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-
-// Rclone Config Upload Component
-const RcloneConfigUpload: FC = () => {
-  const [configContent, setConfigContent] = useState("");
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
-  
-  // Get current rclone config
-  const { data: configData, isLoading: isConfigLoading, refetch } = useQuery({
-    queryKey: ["/api/rclone/config"],
-    queryFn: api.getRcloneConfig,
-  });
-  
-  // Upload rclone config mutation
-  const uploadConfigMutation = useMutation({
-    mutationFn: api.uploadRcloneConfig,
-    onSuccess: (data) => {
-      toast({
-        title: "Configuration Uploaded",
-        description: data.message || "Rclone configuration has been uploaded successfully.",
-      });
-      // Refetch remotes and config data
-      refetch();
-      // Invalidate remotes list to refresh UI
-      queryClient.invalidateQueries({ queryKey: ["/api/rclone/remotes"] });
-    },
-    onError: (error) => {
-      toast({
-        title: "Upload Failed",
-        description: `${error}`,
-        variant: "destructive",
-      });
-    },
-  });
-  
-  // Update textarea content when config data is loaded
-  useEffect(() => {
-    if (configData?.configContent) {
-      setConfigContent(configData.configContent);
-    }
-  }, [configData]);
-  
-  const handleUploadConfig = () => {
-    if (!configContent.trim()) {
-      toast({
-        title: "Empty Configuration",
-        description: "Please enter rclone configuration content.",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    uploadConfigMutation.mutate(configContent);
-  };
-  
-  return (
-    <div className="space-y-4">
-      {isConfigLoading ? (
-        <div className="flex items-center space-x-2">
-          <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
-          <span className="text-sm text-gray-500">Loading configuration...</span>
-        </div>
-      ) : (
-        <>
-          <Alert className="bg-blue-50 border-blue-200">
-            <Cloud className="h-4 w-4" />
-            <AlertTitle>Rclone Configuration</AlertTitle>
-            <AlertDescription>
-              Paste your rclone configuration below. This will overwrite any existing configuration.
-            </AlertDescription>
-          </Alert>
-          
-          <Textarea
-            value={configContent}
-            onChange={(e) => setConfigContent(e.target.value)}
-            placeholder="# Paste your rclone.conf content here
-[remote]
-type = drive
-client_id = 
-client_secret = 
-token = "
-            className="font-mono text-sm min-h-[200px]"
-          />
-          
-          <div className="flex justify-between">
-            <Button 
-              variant="outline" 
-              onClick={() => setConfigContent(configData?.configContent || "")}
-              disabled={isConfigLoading || uploadConfigMutation.isPending}
-            >
-              <Download className="mr-2 h-4 w-4" />
-              Reset
-            </Button>
-            <Button 
-              onClick={handleUploadConfig}
-              disabled={isConfigLoading || uploadConfigMutation.isPending}
-            >
-              {uploadConfigMutation.isPending ? (
-                <div className="w-4 h-4 mr-2 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-              ) : (
-                <Upload className="mr-2 h-4 w-4" />
-              )}
-              Upload Configuration
-            </Button>
-          </div>
-        </>
-      )}
-    </div>
-  );
-};
 
 const SettingsPage: FC = () => {
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
-  const [downloadPath, setDownloadPath] = useState("/downloads");
-  const [maxConcurrentDownloads, setMaxConcurrentDownloads] = useState("3");
-  const [autoUpload, setAutoUpload] = useState(false);
-  const [defaultRemote, setDefaultRemote] = useState("");
+  const [form, setForm] = useState<Settings>(() => settingsSchema.parse({}));
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Get storage information
   const { data: storageData, isLoading: isStorageLoading } = useQuery({
@@ -147,12 +37,57 @@ const SettingsPage: FC = () => {
     queryFn: api.getRcloneRemotes,
   });
 
-  const handleSaveSettings = () => {
-    // This would save the settings on the server - mocked for now
-    toast({
-      title: "Settings saved",
-      description: "Your settings have been saved successfully.",
-    });
+  // Get the saved settings
+  const { data: settingsData } = useQuery({
+    queryKey: ["/api/settings"],
+    queryFn: api.getSettings,
+  });
+
+  useEffect(() => {
+    if (settingsData?.settings) {
+      setForm(settingsData.settings);
+    }
+  }, [settingsData]);
+
+  const updateField = <K extends keyof Settings>(key: K, value: Settings[K]) => {
+    setForm((current) => ({ ...current, [key]: value }));
+  };
+
+  const settingsMutation = useMutation({
+    mutationFn: api.updateSettings,
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/settings"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/system/storage"] });
+    },
+  });
+
+  const handleSaveSettings = async () => {
+    try {
+      await settingsMutation.mutateAsync(form);
+      toast({
+        title: "Settings saved",
+        description: "Your settings have been saved successfully.",
+      });
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResetGeneral = () => {
+    const defaults = settingsSchema.parse({});
+    setForm((current) => ({
+      ...current,
+      downloadPath: defaults.downloadPath,
+      maxConcurrentDownloads: defaults.maxConcurrentDownloads,
+      defaultQuality: defaults.defaultQuality,
+      downloadBandwidth: defaults.downloadBandwidth,
+      downloadWindowStart: defaults.downloadWindowStart,
+      downloadWindowEnd: defaults.downloadWindowEnd,
+    }));
   };
 
   const handleClearDownloads = () => {
@@ -218,8 +153,8 @@ const SettingsPage: FC = () => {
                         <Label htmlFor="downloadPath">Default Download Location</Label>
                         <Input
                           id="downloadPath"
-                          value={downloadPath}
-                          onChange={(e) => setDownloadPath(e.target.value)}
+                          value={form.downloadPath}
+                          onChange={(e) => updateField("downloadPath", e.target.value)}
                         />
                         <p className="text-xs text-gray-500">
                           Path where downloaded files will be saved
@@ -229,8 +164,8 @@ const SettingsPage: FC = () => {
                       <div className="space-y-2">
                         <Label htmlFor="maxConcurrentDownloads">Max Concurrent Downloads</Label>
                         <Select
-                          value={maxConcurrentDownloads}
-                          onValueChange={setMaxConcurrentDownloads}
+                          value={String(form.maxConcurrentDownloads)}
+                          onValueChange={(value) => updateField("maxConcurrentDownloads", parseInt(value, 10))}
                         >
                           <SelectTrigger id="maxConcurrentDownloads">
                             <SelectValue placeholder="Select number" />
@@ -248,6 +183,63 @@ const SettingsPage: FC = () => {
                         </p>
                       </div>
 
+                      <div className="space-y-2">
+                        <Label htmlFor="defaultQuality">Default Quality</Label>
+                        <Select
+                          value={form.defaultQuality}
+                          onValueChange={(value) => updateField("defaultQuality", value)}
+                        >
+                          <SelectTrigger id="defaultQuality">
+                            <SelectValue placeholder="Select quality" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {qualityOptions.map((quality) => (
+                              <SelectItem key={quality} value={quality}>
+                                {formatQualityOption(quality)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-gray-500">
+                          Video quality to download when an episode offers several; the closest match is used otherwise
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="downloadBandwidth">Download Bandwidth Limit</Label>
+                        <Input
+                          id="downloadBandwidth"
+                          value={form.downloadBandwidth}
+                          onChange={(e) => updateField("downloadBandwidth", e.target.value)}
+                          placeholder="e.g., 512k or 2M, empty for unlimited"
+                        />
+                        <p className="text-xs text-gray-500">
+                          Shared by all downloads, in bytes per second with a k, M or G suffix (empty = unlimited)
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Download Window</Label>
+                        <div className="flex items-center space-x-2">
+                          <Input
+                            id="downloadWindowStart"
+                            type="time"
+                            value={form.downloadWindowStart}
+                            onChange={(e) => updateField("downloadWindowStart", e.target.value)}
+                          />
+                          <span className="text-sm text-gray-500">to</span>
+                          <Input
+                            id="downloadWindowEnd"
+                            type="time"
+                            value={form.downloadWindowEnd}
+                            onChange={(e) => updateField("downloadWindowEnd", e.target.value)}
+                          />
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Downloads only run during these hours and wait in the queue otherwise. Leave empty to download any time.
+                        </p>
+                      </div>
+
                       <div className="flex items-center justify-between">
                         <div className="space-y-0.5">
                           <Label htmlFor="autoDownloadEpisodes">Auto-download new episodes</Label>
@@ -259,10 +251,7 @@ const SettingsPage: FC = () => {
                       </div>
                     </CardContent>
                     <CardFooter className="flex justify-between">
-                      <Button variant="outline" onClick={() => {
-                        setDownloadPath("/downloads");
-                        setMaxConcurrentDownloads("3");
-                      }}>
+                      <Button variant="outline" onClick={handleResetGeneral}>
                         Reset to Default
                       </Button>
                       <Button onClick={handleSaveSettings}>
@@ -316,28 +305,33 @@ const SettingsPage: FC = () => {
                         <div className="space-y-3">
                           <div className="flex items-center justify-between">
                             <div className="space-y-0.5">
-                              <Label>Auto-delete after upload</Label>
+                              <Label htmlFor="autoDeleteAfterUpload">Auto-delete after upload</Label>
                               <p className="text-xs text-gray-500">
-                                Delete local files after successful upload to remote
+                                Delete local files once the remote copy has been verified
                               </p>
                             </div>
-                            <Switch checked={autoUpload} onCheckedChange={setAutoUpload} />
+                            <Switch
+                              id="autoDeleteAfterUpload"
+                              checked={form.autoDeleteAfterUpload}
+                              onCheckedChange={(checked) => updateField("autoDeleteAfterUpload", checked)}
+                            />
                           </div>
 
                           <div className="flex items-center justify-between">
                             <div className="space-y-0.5">
                               <Label htmlFor="retentionDays">File Retention (days)</Label>
                               <p className="text-xs text-gray-500">
-                                Keep downloaded files for this many days
+                                Keep downloaded files for this many days (0 keeps them forever)
                               </p>
                             </div>
                             <div className="w-20">
                               <Input
                                 id="retentionDays"
                                 type="number"
-                                defaultValue="30"
-                                min="1"
-                                max="365"
+                                value={form.retentionDays}
+                                onChange={(e) => updateField("retentionDays", parseInt(e.target.value, 10) || 0)}
+                                min="0"
+                                max="3650"
                               />
                             </div>
                           </div>
@@ -358,6 +352,12 @@ const SettingsPage: FC = () => {
                         </p>
                       </div>
                     </CardContent>
+                    <CardFooter>
+                      <Button className="w-full" onClick={handleSaveSettings}>
+                        <Save className="mr-2 h-4 w-4" />
+                        Save Storage Settings
+                      </Button>
+                    </CardFooter>
                   </Card>
                 </TabsContent>
 
@@ -380,8 +380,8 @@ const SettingsPage: FC = () => {
                           </div>
                         ) : remotesData?.remotes?.length ? (
                           <Select
-                            value={defaultRemote}
-                            onValueChange={setDefaultRemote}
+                            value={form.defaultRemote}
+                            onValueChange={(value) => updateField("defaultRemote", value)}
                           >
                             <SelectTrigger id="defaultRemote">
                               <SelectValue placeholder="Select default remote" />
@@ -408,7 +408,8 @@ const SettingsPage: FC = () => {
                         <Label htmlFor="remotePath">Default Remote Path</Label>
                         <Input
                           id="remotePath"
-                          defaultValue="/anime/"
+                          value={form.remotePath}
+                          onChange={(e) => updateField("remotePath", e.target.value)}
                           placeholder="e.g., /anime/"
                         />
                         <p className="text-xs text-gray-500">
@@ -427,29 +428,79 @@ const SettingsPage: FC = () => {
                               Automatically upload files when download completes
                             </p>
                           </div>
-                          <Switch id="autoUpload" checked={autoUpload} onCheckedChange={setAutoUpload} />
+                          <Switch
+                            id="autoUpload"
+                            checked={form.autoUpload}
+                            onCheckedChange={(checked) => updateField("autoUpload", checked)}
+                          />
                         </div>
                       </div>
 
                       <div className="space-y-2">
-                        <Label htmlFor="uploadBandwidth">Upload Bandwidth Limit (KB/s)</Label>
+                        <Label htmlFor="uploadBandwidth">Upload Bandwidth Limit</Label>
                         <Input
                           id="uploadBandwidth"
-                          type="number"
-                          defaultValue="0"
-                          min="0"
-                          placeholder="0 for unlimited"
+                          value={form.uploadBandwidth}
+                          onChange={(e) => updateField("uploadBandwidth", e.target.value)}
+                          placeholder="e.g., 512k, or 08:00,512k 19:00,off"
                         />
                         <p className="text-xs text-gray-500">
-                          Limit upload bandwidth (0 = unlimited)
+                          Limit upload bandwidth in bytes per second, with a k, M or G suffix (empty = unlimited).
+                          A timetable of "HH:MM,limit" entries changes the limit during the day.
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Upload Hold Window</Label>
+                        <div className="flex items-center space-x-2">
+                          <Input
+                            id="uploadHoldStart"
+                            type="time"
+                            value={form.uploadHoldStart}
+                            onChange={(e) => updateField("uploadHoldStart", e.target.value)}
+                          />
+                          <span className="text-sm text-gray-500">to</span>
+                          <Input
+                            id="uploadHoldEnd"
+                            type="time"
+                            value={form.uploadHoldEnd}
+                            onChange={(e) => updateField("uploadHoldEnd", e.target.value)}
+                          />
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Queued uploads wait during these hours and start once the window ends. Leave empty to upload any time.
                         </p>
                       </div>
 
                       <Separator />
 
                       <div className="space-y-2">
-                        <Label>Rclone Configuration File</Label>
-                        <RcloneConfigUpload />
+                        <Label>Rclone Remotes</Label>
+                        <RcloneConfigEditor />
+                      </div>
+
+                      <Separator />
+
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-0.5">
+                            <Label htmlFor="rcloneConfigBackups">Configuration Backups</Label>
+                            <p className="text-xs text-gray-500">
+                              Number of backups to keep, older ones are deleted
+                            </p>
+                          </div>
+                          <div className="w-20">
+                            <Input
+                              id="rcloneConfigBackups"
+                              type="number"
+                              value={form.rcloneConfigBackups}
+                              onChange={(e) => updateField("rcloneConfigBackups", parseInt(e.target.value, 10) || 1)}
+                              min="1"
+                              max="100"
+                            />
+                          </div>
+                        </div>
+                        <RcloneConfigBackups />
                       </div>
                     </CardContent>
                     <CardFooter>
@@ -459,6 +510,8 @@ const SettingsPage: FC = () => {
                       </Button>
                     </CardFooter>
                   </Card>
+
+                  <UploadDestinations />
                 </TabsContent>
 
                 {/* About */}
@@ -0,0 +1,17 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+/**
+ * Create a Drizzle client backed by a PostgreSQL connection pool
+ */
+export function createDb(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+/**
+ * A Drizzle client over the shared schema, whichever PostgreSQL driver it uses
+ */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
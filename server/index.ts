@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { downloader } from "./services/downloader";
+import { settingsService } from "./services/settings";
+import { rcloneService } from "./services/rclone";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +41,18 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await storage.init();
+  await settingsService.load();
+  await rcloneService.recoverUploads();
+  await downloader.recoverDownloads();
+
+  // Fake streaming site for end-to-end runs, see server/mock-site.ts
+  if (app.get("env") === "development" && process.env.MOCK_SITE === "true") {
+    const { createMockSite } = await import("./mock-site");
+    app.use("/mock-site", createMockSite());
+    log("mock site mounted at /mock-site");
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,313 @@
+import express, { type Request, type Response, type Router } from "express";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawn } from "child_process";
+
+// Development only: a fake streaming site shaped like wcofun, so the whole
+// fetch-url → download → upload flow can run without touching the real one.
+// Mounted at /mock-site when MOCK_SITE=true; point the scraper at it with
+// WCOFUN_BASE_URL=http://localhost:5000/mock-site and fetch
+// http://localhost:5000/mock-site/anime/<any-slug>.
+
+export type MockFailure = "403" | "404" | "500" | "stall" | "truncate";
+
+export interface MockFailureRule {
+  match: string; // substring of the request path, e.g. "/videos/" or "-720p.mp4"
+  failure: MockFailure;
+  count?: number; // how many requests to fail, every matching request when unset
+}
+
+const EPISODES_PER_SERIES = parseInt(process.env.MOCK_SITE_EPISODES || "3", 10);
+const VIDEO_BYTES = parseInt(process.env.MOCK_SITE_VIDEO_BYTES || String(2 * 1024 * 1024), 10);
+const SEGMENT_BYTES = 256 * 1024;
+const VARIANTS = [
+  { name: "480p", bandwidth: 800_000, resolution: "854x480" },
+  { name: "720p", bandwidth: 2_000_000, resolution: "1280x720" },
+];
+
+// A stalled response is dropped after this long so sockets don't pile up
+const STALL_MS = 10 * 60_000;
+
+const failureRules: MockFailureRule[] = [];
+
+/**
+ * Make requests whose path contains rule.match fail
+ */
+export function injectFailure(rule: MockFailureRule): void {
+  failureRules.push({ ...rule });
+  console.log(`[MockSite] Injected ${rule.failure} for paths matching "${rule.match}"${rule.count ? ` (${rule.count}x)` : ""}`);
+}
+
+/**
+ * Remove all injected failures
+ */
+export function clearFailures(): void {
+  failureRules.length = 0;
+}
+
+/**
+ * Take the failure for a request path, using up one count of its rule
+ */
+function takeFailure(requestPath: string): MockFailure | undefined {
+  const index = failureRules.findIndex(rule => requestPath.includes(rule.match));
+  if (index < 0) return undefined;
+
+  const rule = failureRules[index];
+  if (rule.count !== undefined && --rule.count <= 0) {
+    failureRules.splice(index, 1);
+  }
+  return rule.failure;
+}
+
+function titleFromSlug(slug: string): string {
+  return slug.replace(/-/g, " ").replace(/\b\w/g, c => c.toUpperCase());
+}
+
+function getBaseUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}${req.baseUrl}`;
+}
+
+/**
+ * Deterministic filler bytes, so resumed downloads can be checked byte for byte
+ */
+function mockBytes(name: string, size: number): Buffer {
+  return Buffer.alloc(size, crypto.createHash("sha256").update(name).digest());
+}
+
+/**
+ * Send a media body with Range support and the injected body failures
+ */
+function sendBody(req: Request, res: Response, body: Buffer, contentType: string): void {
+  let start = 0;
+  let end = body.length - 1;
+
+  const range = req.headers.range?.match(/^bytes=(\d+)-(\d*)$/);
+  if (range) {
+    start = parseInt(range[1], 10);
+    end = range[2] ? Math.min(parseInt(range[2], 10), end) : end;
+
+    if (start >= body.length || start > end) {
+      res.status(416).set("Content-Range", `bytes */${body.length}`).end();
+      return;
+    }
+    res.status(206).set("Content-Range", `bytes ${start}-${end}/${body.length}`);
+  }
+
+  res.set({
+    "Accept-Ranges": "bytes",
+    "Content-Type": contentType,
+    "Content-Length": String(end - start + 1),
+  });
+
+  const slice = body.subarray(start, end + 1);
+  const failure = res.locals.failure as MockFailure | undefined;
+
+  if (failure === "truncate") {
+    // Promise the full length, deliver half and hang up
+    res.write(slice.subarray(0, Math.floor(slice.length / 2)), () => res.socket?.destroy());
+    return;
+  }
+
+  if (failure === "stall") {
+    // Deliver a little, then go quiet without closing the connection
+    res.write(slice.subarray(0, Math.min(slice.length, 64 * 1024)));
+    const timer = setTimeout(() => res.destroy(), STALL_MS);
+    req.on("close", () => clearTimeout(timer));
+    return;
+  }
+
+  res.end(slice);
+}
+
+let hlsClip: Promise<string | null> | undefined;
+
+/**
+ * Cut a short test clip into HLS segments with ffmpeg, once per process, so
+ * HLS downloads can be remuxed for real. Resolves to null without ffmpeg.
+ */
+function getHlsClip(): Promise<string | null> {
+  if (!hlsClip) {
+    hlsClip = new Promise(resolve => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mock-site-hls-"));
+      const ffmpeg = spawn("ffmpeg", [
+        "-y", "-loglevel", "error",
+        "-f", "lavfi", "-i", "testsrc=size=320x240:rate=10",
+        "-f", "lavfi", "-i", "sine=frequency=440",
+        "-t", "12",
+        "-c:v", "mpeg2video", "-c:a", "aac",
+        "-f", "hls", "-hls_time", "4", "-hls_list_size", "0",
+        "-hls_segment_filename", path.join(dir, "seg-%d.ts"),
+        path.join(dir, "index.m3u8"),
+      ], { stdio: "ignore" });
+
+      ffmpeg.on("error", () => {
+        console.log(`[MockSite] ffmpeg not available, serving filler HLS segments`);
+        resolve(null);
+      });
+      ffmpeg.on("close", code => resolve(code === 0 ? dir : null));
+    });
+  }
+  return hlsClip;
+}
+
+export function createMockSite(): Router {
+  const router = express.Router();
+
+  // Failure injection, e.g. POST { "match": "-720p.mp4", "failure": "403", "count": 1 }
+  router.get("/_control/failures", (_req, res) => {
+    res.json({ failures: failureRules });
+  });
+
+  router.post("/_control/failures", (req, res) => {
+    const rule = req.body as MockFailureRule;
+    if (!rule?.match || !["403", "404", "500", "stall", "truncate"].includes(rule.failure)) {
+      return res.status(400).json({ message: "Expected { match, failure: 403|404|500|stall|truncate, count? }" });
+    }
+    injectFailure(rule);
+    res.json({ failures: failureRules });
+  });
+
+  router.delete("/_control/failures", (_req, res) => {
+    clearFailures();
+    res.json({ failures: failureRules });
+  });
+
+  // Status failures apply to every page, body failures only to media
+  router.use((req, res, next) => {
+    const failure = takeFailure(req.path);
+    if (failure === "403" || failure === "404" || failure === "500") {
+      console.log(`[MockSite] Failing ${req.path} with ${failure}`);
+      return res.status(parseInt(failure, 10)).send(`Mock ${failure}`);
+    }
+    res.locals.failure = failure;
+    next();
+  });
+
+  // Series page, any slug is a series with EPISODES_PER_SERIES episodes
+  router.get("/anime/:slug", (req, res) => {
+    const base = getBaseUrl(req);
+    const { slug } = req.params;
+    const title = titleFromSlug(slug);
+
+    const episodeLinks = Array.from({ length: EPISODES_PER_SERIES }, (_, i) => EPISODES_PER_SERIES - i)
+      .map(n => `<div class="cat-eps"><a href="${base}/${slug}-episode-${n}-english-dubbed" class="sonra">${title} Episode ${n} English Dubbed</a></div>`)
+      .join("\n");
+
+    res.type("html").send(`<!DOCTYPE html>
+<html>
+<head>
+  <title>Watch ${title} Online in HD | WCO</title>
+  <meta name="description" content="${title} is a mock series served for testing.">
+</head>
+<body>
+  <div class="video-title">${title}</div>
+  <img class="img-responsive" src="${base}/images/${slug}.jpg" alt="${title}">
+  <div id="sidebar_right3">
+${episodeLinks}
+  </div>
+</body>
+</html>`);
+  });
+
+  // Episode page with an MP4 player and an HLS player as mirrors
+  router.get("/:page", (req, res, next) => {
+    const match = req.params.page.match(/^(.+)-episode-(\d+)-english-dubbed$/);
+    if (!match) return next();
+
+    const base = getBaseUrl(req);
+    const [, slug, episode] = match;
+    const ep = `${slug}-episode-${episode}`;
+
+    res.type("html").send(`<!DOCTYPE html>
+<html>
+<head><title>${titleFromSlug(slug)} Episode ${episode} English Dubbed | WCO</title></head>
+<body>
+  <div class="video-title">${titleFromSlug(slug)} Episode ${episode} English Dubbed</div>
+  <div class="category"><a href="${base}/anime/${slug}">${titleFromSlug(slug)}</a></div>
+  <iframe src="${base}/embed/mp4?ep=${ep}" width="530" height="440"></iframe>
+  <iframe src="${base}/embed/hls?ep=${ep}" width="530" height="440"></iframe>
+</body>
+</html>`);
+  });
+
+  // Player pages. Video links carry a token like the real CDN's.
+  router.get("/embed/mp4", (req, res) => {
+    const base = getBaseUrl(req);
+    const ep = String(req.query.ep || "episode");
+    const token = Date.now();
+
+    const sources = VARIANTS
+      .map(variant => `{file: "${base}/videos/${ep}-${variant.name}.mp4?token=${token}", label: "${variant.name}"}`)
+      .join(",\n        ");
+
+    res.type("html").send(`<!DOCTYPE html>
+<html>
+<body>
+  <div id="player"></div>
+  <script>
+    jwplayer("player").setup({
+      sources: [
+        ${sources}
+      ]
+    });
+  </script>
+</body>
+</html>`);
+  });
+
+  router.get("/embed/hls", (req, res) => {
+    const base = getBaseUrl(req);
+    const ep = String(req.query.ep || "episode");
+
+    res.type("html").send(`<!DOCTYPE html>
+<html>
+<body>
+  <div id="player"></div>
+  <script>
+    jwplayer("player").setup({ file: "${base}/hls/${ep}/master.m3u8?token=${Date.now()}" });
+  </script>
+</body>
+</html>`);
+  });
+
+  router.get("/videos/:file", (req, res) => {
+    sendBody(req, res, mockBytes(req.params.file, VIDEO_BYTES), "video/mp4");
+  });
+
+  router.get("/hls/:ep/master.m3u8", (_req, res) => {
+    const variants = VARIANTS
+      .map(variant => `#EXT-X-STREAM-INF:BANDWIDTH=${variant.bandwidth},RESOLUTION=${variant.resolution}\n${variant.name}/index.m3u8`)
+      .join("\n");
+
+    res.type("application/vnd.apple.mpegurl").send(`#EXTM3U\n${variants}\n`);
+  });
+
+  router.get("/hls/:ep/:variant/index.m3u8", async (_req, res) => {
+    const clip = await getHlsClip();
+    if (clip) {
+      return res.type("application/vnd.apple.mpegurl").send(fs.readFileSync(path.join(clip, "index.m3u8"), "utf8"));
+    }
+
+    const segments = [0, 1, 2].map(i => `#EXTINF:4.0,\nseg-${i}.ts`).join("\n");
+    res.type("application/vnd.apple.mpegurl")
+      .send(`#EXTM3U\n#EXT-X-VERSION:3\n#EXT-X-TARGETDURATION:4\n#EXT-X-MEDIA-SEQUENCE:0\n${segments}\n#EXT-X-ENDLIST\n`);
+  });
+
+  router.get("/hls/:ep/:variant/:segment", async (req, res) => {
+    const clip = await getHlsClip();
+    const segmentPath = clip ? path.join(clip, path.basename(req.params.segment)) : null;
+
+    const body = segmentPath
+      ? (fs.existsSync(segmentPath) ? fs.readFileSync(segmentPath) : null)
+      : mockBytes(req.path, SEGMENT_BYTES);
+
+    if (!body) {
+      return res.status(404).send("Segment not found");
+    }
+    sendBody(req, res, body, "video/mp2t");
+  });
+
+  return router;
+}
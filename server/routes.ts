@@ -2,23 +2,35 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { scraper } from "./services/scraper";
+import { siteRegistry, UnsupportedSiteError } from "./services/sites";
 import { downloader } from "./services/downloader";
-import { rcloneService } from "./services/rclone";
+import { rcloneService, InvalidRemoteError, UploadStateError } from "./services/rclone";
+import { RcloneConfigError } from "./services/rclone-config";
+import { settingsService } from "./services/settings";
+import { setupEventSocket } from "./websocket";
 import { 
   urlFetchSchema,
   downloadRequestSchema,
   downloadControlSchema,
+  downloadRateLimitSchema,
+  downloadScheduleOverrideSchema,
+  updateSettingsSchema,
+  seriesUploadSettingsSchema,
   rcloneUploadSchema,
-  rcloneConfigSchema
+  rcloneListSchema,
+  rcloneMkdirSchema,
+  rcloneConfigSchema,
+  rcloneRemoteSchema,
+  insertUploadDestinationSchema,
+  updateUploadDestinationSchema,
+  insertUploadRuleSchema
 } from "@shared/schema";
 import { ZodError } from "zod";
 import path from "path";
-import fs from "fs";
-import * as cheerio from "cheerio";
 import { promisify } from "util";
-import { exec } from "child_process";
+import { execFile } from "child_process";
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Middleware to handle parsing errors
@@ -38,6 +50,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Determine if this is a series or episode URL
       const { type, url: normalizedUrl } = scraper.determineUrlType(url);
+      const adapter = siteRegistry.getAdapter(normalizedUrl);
       console.log(`[Fetch URL] Detected type: ${type}, Normalized URL: ${normalizedUrl}`);
       
       if (type === 'series') {
@@ -53,13 +66,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (!series) {
           // Create new series
-          const seriesData = scraper.parseSeriesInfo(html, normalizedUrl);
+          const seriesData = adapter.parseSeriesInfo(html, normalizedUrl);
           console.log(`[Fetch URL] Parsed series: ${seriesData.title}, Episodes: ${seriesData.totalEpisodes}`);
           series = await storage.createSeries(seriesData);
         } else if (forceRefresh) {
           // Update existing series if force refresh is requested
           console.log(`[Fetch URL] Force refreshing series metadata`);
-          const updatedData = scraper.parseSeriesInfo(html, normalizedUrl);
+          const updatedData = adapter.parseSeriesInfo(html, normalizedUrl);
           series = await storage.updateSeries(series.id, updatedData);
           console.log(`[Fetch URL] Updated series metadata`);
         }
@@ -84,7 +97,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
           // Parse episode list and create episodes
           console.log(`[Fetch URL] Parsing episode list for seriesId: ${series.id}`);
-          const parsedEpisodes = scraper.parseEpisodeList(html, series.id);
+          const parsedEpisodes = adapter.parseEpisodeList(html, series.id, normalizedUrl);
           console.log(`[Fetch URL] Found ${parsedEpisodes.length} episodes to create`);
           
           for (const episodeData of parsedEpisodes) {
@@ -110,24 +123,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
           let seriesId: number;
           
           // Extract series URL if possible
-          const $ = cheerio.load(html);
-          const seriesLink = $('.category a').attr('href');
+          const { title, seriesUrl } = adapter.parseEpisodeInfo(html, normalizedUrl);
           
-          if (seriesLink) {
-            const seriesUrl = seriesLink.startsWith('http') ? seriesLink : `https://www.wcofun.net${seriesLink}`;
+          if (seriesUrl) {
             let series = await storage.getSeriesBySourceUrl(seriesUrl);
             
             if (!series) {
               // Fetch and parse series page
               const seriesHtml = await scraper.getSourceHtml(seriesUrl);
-              const seriesData = scraper.parseSeriesInfo(seriesHtml, seriesUrl);
+              const seriesData = siteRegistry.getAdapter(seriesUrl).parseSeriesInfo(seriesHtml, seriesUrl);
               series = await storage.createSeries(seriesData);
             }
             
             seriesId = series.id;
           } else {
             // Create a temporary series for this episode
-            const title = $('.video-title').text().trim();
             const seriesTitle = title.split(' - ')[0] || 'Unknown Series';
             
             const series = await storage.createSeries({
@@ -142,14 +152,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
           
           // Parse episode details
-          const title = $('.video-title').text().trim();
-          let downloadUrl = await scraper.parseEpisodePage(html);
-          
-          // Validate the download URL before saving
-          if (downloadUrl && !scraper.isValidVideoUrl(downloadUrl)) {
-            console.log(`[Fetch URL] Invalid download URL found: ${downloadUrl}, setting to empty`);
-            downloadUrl = '';
-          }
+          const sources = await scraper.parseEpisodePage(html, normalizedUrl);
+          const downloadUrl = sources[0]?.url || '';
           
           // Create episode
           episode = await storage.createEpisode({
@@ -159,7 +163,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             season: 1, // Default
             duration: '',
             sourceUrl: normalizedUrl,
-            downloadUrl
+            downloadUrl,
+            downloadUrlResolvedAt: downloadUrl ? new Date() : null,
+            sources
           });
         }
         
@@ -173,6 +179,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: "Invalid URL format", errors: error.errors });
       }
+      if (error instanceof UnsupportedSiteError) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: `Error fetching URL: ${error.message}` });
     }
   });
@@ -180,7 +189,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Start a download
   app.post("/api/downloads", async (req, res) => {
     try {
-      const { type, id, downloadPath } = downloadRequestSchema.parse(req.body);
+      const { type, id, downloadPath, quality } = downloadRequestSchema.parse(req.body);
+      const downloadQuality = quality || settingsService.get().defaultQuality;
       
       if (type === 'episode') {
         // Download a single episode
@@ -193,14 +203,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!episode.downloadUrl) {
           // Try to get the download URL
           const html = await scraper.getSourceHtml(episode.sourceUrl);
-          const downloadUrl = await scraper.parseEpisodePage(html);
+          const sources = await scraper.parseEpisodePage(html, episode.sourceUrl);
           
-          if (!downloadUrl) {
+          if (sources.length === 0) {
             return res.status(400).json({ message: "Could not extract download URL for this episode" });
           }
           
-          // Update the episode with the download URL
-          await storage.updateEpisode(episode.id, { downloadUrl });
+          // Update the episode with the best source and keep the rest as mirrors
+          const downloadUrl = sources[0].url;
+          await storage.updateEpisode(episode.id, { downloadUrl, downloadUrlResolvedAt: new Date(), sources });
           episode.downloadUrl = downloadUrl;
         }
         
@@ -208,11 +219,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const download = await storage.createDownload({
           episodeId: episode.id,
           status: "queued",
-          filePath: downloadPath ? path.join(downloadPath, `episode-${episode.episodeNumber}.mp4`) : undefined
+          filePath: downloadPath ? path.join(downloadPath, `episode-${episode.episodeNumber}.mp4`) : undefined,
+          quality: downloadQuality,
         });
         
-        // Start download process
-        downloader.startDownload(download.id);
+        // Queue the download, it starts as soon as a slot is free
+        await downloader.enqueueDownload(download.id);
         
         return res.json({ download });
       } else {
@@ -237,16 +249,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
             try {
               // Try to get the download URL
               const html = await scraper.getSourceHtml(episode.sourceUrl);
-              const downloadUrl = await scraper.parseEpisodePage(html);
+              const sources = await scraper.parseEpisodePage(html, episode.sourceUrl);
               
-              // Validate the URL is a proper video URL
-              if (downloadUrl && scraper.isValidVideoUrl(downloadUrl)) {
-                // Update the episode with the download URL
-                await storage.updateEpisode(episode.id, { downloadUrl });
+              if (sources.length > 0) {
+                // Update the episode with the best source and keep the rest as mirrors
+                const downloadUrl = sources[0].url;
+                await storage.updateEpisode(episode.id, { downloadUrl, downloadUrlResolvedAt: new Date(), sources });
                 episode.downloadUrl = downloadUrl;
-                console.log(`[Download] Updated episode ${episode.id} with valid download URL: ${downloadUrl}`);
+                console.log(`[Download] Updated episode ${episode.id} with ${sources.length} video sources, using: ${downloadUrl}`);
               } else {
-                console.log(`[Download] Skipping invalid download URL for episode ${episode.id}: ${downloadUrl || 'empty URL'}`);
+                console.log(`[Download] No valid video source found for episode ${episode.id}`);
               }
             } catch (error) {
               console.error(`Error getting download URL for episode ${episode.id}:`, error);
@@ -262,18 +274,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
               status: "queued",
               filePath: downloadPath ? 
                 path.join(downloadPath, `season-${episode.season}`, `episode-${episode.episodeNumber}.mp4`) : 
-                undefined
+                undefined,
+              quality: downloadQuality,
             });
             
             downloads.push(download);
-            
-            // Start download process (with a small delay to prevent hammering the server)
-            setTimeout(() => {
-              downloader.startDownload(download.id);
-            }, downloads.length * 500);
           }
         }
         
+        // The scheduler only starts as many as the concurrency limit allows
+        await downloader.processQueue();
+        
         return res.json({ downloads });
       }
     } catch (error: any) {
@@ -324,6 +335,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the retry policy applied to failed downloads
+  app.get("/api/downloads/retry-policy", async (req, res) => {
+    return res.json({ retryPolicy: downloader.getRetryPolicy() });
+  });
+
+  // Get the download window and whether the queue is running
+  app.get("/api/downloads/schedule", async (req, res) => {
+    return res.json({ schedule: downloader.getSchedule() });
+  });
+
+  // Run or pause the queue for a while regardless of the download window
+  app.post("/api/downloads/schedule/override", async (req, res) => {
+    try {
+      const { mode, minutes } = downloadScheduleOverrideSchema.parse(req.body);
+      const schedule = await downloader.overrideSchedule(mode, minutes);
+      return res.json({ schedule });
+    } catch (error: any) {
+      console.error('Error overriding download schedule:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid schedule override", errors: error.errors });
+      }
+      return res.status(500).json({ message: `Error overriding download schedule: ${error.message}` });
+    }
+  });
+
+  // Set or lift a download's own speed limit
+  app.patch("/api/downloads/:id", async (req, res) => {
+    try {
+      const { rateLimit } = downloadRateLimitSchema.parse(req.body);
+
+      const download = await downloader.setRateLimit(parseInt(req.params.id), rateLimit);
+      if (!download) {
+        return res.status(404).json({ message: "Download not found" });
+      }
+      return res.json({ download });
+    } catch (error: any) {
+      console.error('Error updating download:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid download settings", errors: error.errors });
+      }
+      return res.status(500).json({ message: `Error updating download: ${error.message}` });
+    }
+  });
+
   // Get all downloads
   app.get("/api/downloads", async (req, res) => {
     try {
@@ -407,6 +462,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Override the auto-upload setting for a series, null follows the setting again
+  app.patch("/api/series/:id", async (req, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const data = seriesUploadSettingsSchema.parse(req.body);
+
+      const series = await storage.updateSeries(seriesId, data);
+      if (!series) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+
+      return res.json({ series });
+    } catch (error: any) {
+      console.error('Error updating series:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid series settings", errors: error.errors });
+      }
+      return res.status(500).json({ message: `Error updating series: ${error.message}` });
+    }
+  });
+
+  // Get application settings
+  app.get("/api/settings", async (req, res) => {
+    return res.json({ settings: settingsService.get() });
+  });
+
+  // Update application settings, only the fields sent are changed
+  app.put("/api/settings", async (req, res) => {
+    try {
+      const data = updateSettingsSchema.parse(req.body);
+      const settings = await settingsService.update(data);
+      return res.json({ settings });
+    } catch (error: any) {
+      console.error('Error updating settings:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid settings", errors: error.errors });
+      }
+      return res.status(500).json({ message: `Error updating settings: ${error.message}` });
+    }
+  });
+
   // Rclone remotes endpoint
   app.get("/api/rclone/remotes", async (req, res) => {
     try {
@@ -433,19 +529,233 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Rclone is not available on this system" });
       }
       
-      const results = await rcloneService.uploadMultipleFiles(downloadIds, remotePath);
+      // Fall back to the default remote and path from the settings
+      const destination = remotePath || rcloneService.getDefaultDestination();
+      if (!destination) {
+        return res.status(400).json({ message: "No remote path given and no default remote configured" });
+      }
+      
+      // Runs in the background, progress is pushed over /ws
+      const uploads = await rcloneService.queueUploads(downloadIds, destination);
       
-      return res.json({ results });
+      return res.status(202).json({ uploads });
     } catch (error: any) {
       console.error('Error uploading to rclone:', error);
       if (error instanceof ZodError) {
         return res.status(400).json({ message: "Invalid upload request", errors: error.errors });
       }
+      if (error instanceof InvalidRemoteError) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: `Error uploading to rclone: ${error.message}` });
     }
   });
   
-  // Get rclone config
+  // List a directory on a remote, for picking upload destinations
+  app.get("/api/rclone/ls", async (req, res) => {
+    try {
+      const { remote, path: directory } = rcloneListSchema.parse(req.query);
+      const entries = await rcloneService.listDirectory(remote, directory);
+      return res.json({ entries });
+    } catch (error: any) {
+      console.error('Error listing remote directory:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid listing request", errors: error.errors });
+      }
+      if (error instanceof InvalidRemoteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: `Error listing remote directory: ${error.message}` });
+    }
+  });
+
+  // Create a directory on a remote
+  app.post("/api/rclone/mkdir", async (req, res) => {
+    try {
+      const { remote, path: directory } = rcloneMkdirSchema.parse(req.body);
+      const created = await rcloneService.makeDirectory(remote, directory);
+      return res.status(201).json({ path: created });
+    } catch (error: any) {
+      console.error('Error creating remote directory:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid directory request", errors: error.errors });
+      }
+      if (error instanceof InvalidRemoteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: `Error creating remote directory: ${error.message}` });
+    }
+  });
+
+  // Get upload history with the episode and series of each upload
+  app.get("/api/uploads", async (req, res) => {
+    try {
+      const uploads = await storage.getAllUploads();
+
+      const uploadsWithDetails = await Promise.all(
+        uploads.map(async (upload) => {
+          const download = await storage.getDownload(upload.downloadId);
+          const episode = download ? await storage.getEpisode(download.episodeId) : undefined;
+          const series = episode ? await storage.getSeries(episode.seriesId) : undefined;
+
+          return {
+            ...upload,
+            episode,
+            series
+          };
+        })
+      );
+
+      return res.json({ uploads: uploadsWithDetails, heldUntil: rcloneService.getUploadHoldEnd() });
+    } catch (error: any) {
+      console.error('Error getting uploads:', error);
+      return res.status(500).json({ message: `Error getting uploads: ${error.message}` });
+    }
+  });
+
+  // Queue a failed or cancelled upload again
+  app.post("/api/uploads/:id/retry", async (req, res) => {
+    try {
+      const upload = await rcloneService.retryUpload(parseInt(req.params.id));
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      return res.json({ upload });
+    } catch (error: any) {
+      console.error('Error retrying upload:', error);
+      if (error instanceof UploadStateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: `Error retrying upload: ${error.message}` });
+    }
+  });
+
+  // Cancel a queued or running upload
+  app.post("/api/uploads/:id/cancel", async (req, res) => {
+    try {
+      const upload = await rcloneService.cancelUpload(parseInt(req.params.id));
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      return res.json({ upload });
+    } catch (error: any) {
+      console.error('Error cancelling upload:', error);
+      if (error instanceof UploadStateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: `Error cancelling upload: ${error.message}` });
+    }
+  });
+
+  // Get upload destinations and the rules routing series to them
+  app.get("/api/upload-destinations", async (req, res) => {
+    try {
+      const destinations = await storage.getAllUploadDestinations();
+      const rules = await storage.getAllUploadRules();
+      return res.json({ destinations, rules });
+    } catch (error: any) {
+      console.error('Error getting upload destinations:', error);
+      return res.status(500).json({ message: `Error getting upload destinations: ${error.message}` });
+    }
+  });
+
+  // Add an upload destination
+  app.post("/api/upload-destinations", async (req, res) => {
+    try {
+      const data = insertUploadDestinationSchema.parse(req.body);
+      const remote = await rcloneService.resolveRemote(data.remote);
+
+      const destination = await storage.createUploadDestination({ ...data, remote });
+      return res.status(201).json({ destination });
+    } catch (error: any) {
+      console.error('Error creating upload destination:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid upload destination", errors: error.errors });
+      }
+      if (error instanceof InvalidRemoteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: `Error creating upload destination: ${error.message}` });
+    }
+  });
+
+  // Update an upload destination, only the fields sent are changed
+  app.patch("/api/upload-destinations/:id", async (req, res) => {
+    try {
+      const data = updateUploadDestinationSchema.parse(req.body);
+      if (data.remote !== undefined) {
+        data.remote = await rcloneService.resolveRemote(data.remote);
+      }
+
+      const destination = await storage.updateUploadDestination(parseInt(req.params.id), data);
+      if (!destination) {
+        return res.status(404).json({ message: "Upload destination not found" });
+      }
+      return res.json({ destination });
+    } catch (error: any) {
+      console.error('Error updating upload destination:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid upload destination", errors: error.errors });
+      }
+      if (error instanceof InvalidRemoteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: `Error updating upload destination: ${error.message}` });
+    }
+  });
+
+  // Delete an upload destination along with its rules; its past uploads are kept
+  app.delete("/api/upload-destinations/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteUploadDestination(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Upload destination not found" });
+      }
+      return res.json({ success: true });
+    } catch (error: any) {
+      console.error('Error deleting upload destination:', error);
+      return res.status(500).json({ message: `Error deleting upload destination: ${error.message}` });
+    }
+  });
+
+  // Route a series, or every series when seriesId is null, to a destination
+  app.post("/api/upload-rules", async (req, res) => {
+    try {
+      const data = insertUploadRuleSchema.parse(req.body);
+
+      if (!(await storage.getUploadDestination(data.destinationId))) {
+        return res.status(404).json({ message: "Upload destination not found" });
+      }
+      if (data.seriesId != null && !(await storage.getSeries(data.seriesId))) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+
+      const rule = await storage.createUploadRule({ ...data, seriesId: data.seriesId ?? null });
+      return res.status(201).json({ rule });
+    } catch (error: any) {
+      console.error('Error creating upload rule:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid upload rule", errors: error.errors });
+      }
+      return res.status(500).json({ message: `Error creating upload rule: ${error.message}` });
+    }
+  });
+
+  // Remove an upload rule
+  app.delete("/api/upload-rules/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteUploadRule(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Upload rule not found" });
+      }
+      return res.json({ success: true });
+    } catch (error: any) {
+      console.error('Error deleting upload rule:', error);
+      return res.status(500).json({ message: `Error deleting upload rule: ${error.message}` });
+    }
+  });
+  
+  // Get the configured rclone remotes, credentials redacted
   app.get("/api/rclone/config", async (req, res) => {
     try {
       const isAvailable = await rcloneService.isRcloneAvailable();
@@ -453,15 +763,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Rclone is not available on this system" });
       }
       
-      const configContent = await rcloneService.getConfigContent();
-      return res.json({ configContent });
+      const remotes = await rcloneService.getConfigRemotes();
+      return res.json({ remotes });
     } catch (error: any) {
       console.error('Error getting rclone config:', error);
       return res.status(500).json({ message: `Error getting rclone config: ${error.message}` });
     }
   });
   
-  // Upload rclone config
+  // Replace the rclone config with an imported rclone.conf
   app.post("/api/rclone/config", async (req, res) => {
     try {
       const { configContent } = rcloneConfigSchema.parse(req.body);
@@ -471,34 +781,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Rclone is not available on this system" });
       }
       
-      const success = await rcloneService.uploadConfig(configContent);
-      
-      if (success) {
-        return res.json({ success: true, message: "Configuration uploaded successfully" });
-      } else {
-        return res.status(400).json({ message: "Failed to upload rclone configuration" });
-      }
+      const remotes = await rcloneService.uploadConfig(configContent);
+      return res.json({ success: true, message: "Configuration uploaded successfully", remotes });
     } catch (error: any) {
       console.error('Error uploading rclone config:', error);
       if (error instanceof ZodError) {
         return res.status(400).json({ message: "Invalid config format", errors: error.errors });
       }
+      if (error instanceof RcloneConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: `Error uploading rclone config: ${error.message}` });
     }
   });
 
+  // List rclone config backups with their diffs against the current config
+  app.get("/api/rclone/config/backups", async (req, res) => {
+    try {
+      const backups = await rcloneService.getConfigBackups();
+      return res.json({ backups });
+    } catch (error: any) {
+      console.error('Error getting rclone config backups:', error);
+      return res.status(500).json({ message: `Error getting rclone config backups: ${error.message}` });
+    }
+  });
+
+  // Roll the rclone config back to a backup
+  app.post("/api/rclone/config/backups/restore/:id", async (req, res) => {
+    try {
+      const remotes = await rcloneService.restoreConfigBackup(req.params.id);
+      if (!remotes) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+      return res.json({ success: true, message: "Configuration restored", remotes });
+    } catch (error: any) {
+      console.error('Error restoring rclone config backup:', error);
+      if (error instanceof RcloneConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: `Error restoring rclone config backup: ${error.message}` });
+    }
+  });
+
+  // Add a remote to the rclone config
+  app.post("/api/rclone/config/remotes", async (req, res) => {
+    try {
+      const data = rcloneRemoteSchema.parse(req.body);
+      const remote = await rcloneService.addRemote(data);
+      return res.status(201).json({ remote });
+    } catch (error: any) {
+      console.error('Error adding rclone remote:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid remote", errors: error.errors });
+      }
+      if (error instanceof RcloneConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: `Error adding rclone remote: ${error.message}` });
+    }
+  });
+
+  // Replace a remote's settings, redacted values keep what is stored
+  app.put("/api/rclone/config/remotes/:name", async (req, res) => {
+    try {
+      const data = rcloneRemoteSchema.parse(req.body);
+      const remote = await rcloneService.updateRemote(req.params.name, data);
+      if (!remote) {
+        return res.status(404).json({ message: "Remote not found" });
+      }
+      return res.json({ remote });
+    } catch (error: any) {
+      console.error('Error updating rclone remote:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid remote", errors: error.errors });
+      }
+      if (error instanceof RcloneConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: `Error updating rclone remote: ${error.message}` });
+    }
+  });
+
+  // Remove a remote from the rclone config
+  app.delete("/api/rclone/config/remotes/:name", async (req, res) => {
+    try {
+      const deleted = await rcloneService.deleteRemote(req.params.name);
+      if (!deleted) {
+        return res.status(404).json({ message: "Remote not found" });
+      }
+      return res.json({ success: true });
+    } catch (error: any) {
+      console.error('Error deleting rclone remote:', error);
+      if (error instanceof RcloneConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: `Error deleting rclone remote: ${error.message}` });
+    }
+  });
+
   // Get available storage space
   app.get("/api/system/storage", async (req, res) => {
     try {
-      const downloadsDir = path.join(process.cwd(), 'downloads');
-      
-      // Ensure downloads directory exists
-      if (!fs.existsSync(downloadsDir)) {
-        fs.mkdirSync(downloadsDir, { recursive: true });
-      }
+      const downloadsDir = downloader.getDownloadsDirectory();
       
       // Use df command on Linux to get disk space
-      const { stdout } = await execAsync(`df -k "${downloadsDir}"`);
+      const { stdout } = await execFileAsync('df', ['-k', downloadsDir]);
       const lines = stdout.trim().split('\n');
       const parts = lines[1].split(/\s+/);
       
@@ -520,12 +907,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         total: 0,
         used: 0,
         available: 0,
-        downloadsDir: path.join(process.cwd(), 'downloads'),
+        downloadsDir: path.resolve(process.cwd(), settingsService.get().downloadPath),
         error: `Could not get storage information: ${error.message}`
       });
     }
   });
 
   const httpServer = createServer(app);
+  setupEventSocket(httpServer);
   return httpServer;
 }
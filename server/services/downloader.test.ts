@@ -0,0 +1,322 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { InsertEpisode } from '@shared/schema';
+import { storage } from '../storage';
+import { downloader } from './downloader';
+import { eventBus } from './events';
+import { scraper } from './scraper';
+import { settingsService } from './settings';
+
+// Large enough that the write stream is still flushing when the body ends
+const body = Buffer.alloc(16 * 1024 * 1024, 7);
+let server: http.Server;
+let baseUrl: string;
+let videoUrl: string;
+let tempDir: string;
+
+beforeAll(async () => {
+  // Videos named "expired-*" answer with a 403 like a CDN rejecting an old
+  // link, "missing-*" with a 404 like a mirror that lost the file. There is
+  // also an HLS stream of two segments.
+  server = http.createServer((req, res) => {
+    if (req.url === '/stream.m3u8') {
+      res.end('#EXTM3U\n#EXT-X-TARGETDURATION:10\n#EXTINF:10,\nsegment-0.ts\n#EXTINF:10,\nsegment-1.ts\n#EXT-X-ENDLIST\n');
+      return;
+    }
+    if (req.url?.startsWith('/segment-')) {
+      res.end(`segment ${req.url}`);
+      return;
+    }
+    if (req.url?.startsWith('/expired-')) {
+      res.writeHead(403).end();
+      return;
+    }
+    if (req.url?.startsWith('/missing-')) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.setHeader('Content-Length', body.length);
+    res.end(body);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  videoUrl = `${baseUrl}/episode.mp4`;
+
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'downloader-test-'));
+  await settingsService.update({ downloadPath: tempDir });
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+let episodeNumber = 0;
+
+/**
+ * Queue a download of a new episode of the example show
+ */
+const createDownload = async (episode: Partial<InsertEpisode> = { downloadUrl: videoUrl }) => {
+  const series = await storage.getSeriesBySourceUrl('https://www.wcofun.net/anime/example-show')
+    ?? await storage.createSeries({ title: 'Example Show', sourceUrl: 'https://www.wcofun.net/anime/example-show' });
+  const number = ++episodeNumber;
+  const created = await storage.createEpisode({
+    seriesId: series.id,
+    title: `Episode ${number}`,
+    episodeNumber: number,
+    sourceUrl: `https://www.wcofun.net/example-show-episode-${number}`,
+    downloadUrlResolvedAt: new Date(),
+    ...episode,
+  });
+  return storage.createDownload({ episodeId: created.id });
+};
+
+/**
+ * Hold the scrape of episode pages until the returned function is called
+ */
+const holdScrape = () => {
+  let release!: () => void;
+  const released = new Promise<void>(resolve => release = resolve);
+  vi.spyOn(scraper, 'getSourceHtml').mockImplementation(async () => {
+    await released;
+    return '<html></html>';
+  });
+  vi.spyOn(scraper, 'parseEpisodePage').mockResolvedValue([{ url: videoUrl, host: '127.0.0.1', quality: '720p', container: 'mp4' }]);
+  return release;
+};
+
+/**
+ * Have episode pages list the given video URLs
+ */
+const mockScrape = (...urls: string[]) => {
+  vi.spyOn(scraper, 'getSourceHtml').mockResolvedValue('<html></html>');
+  vi.spyOn(scraper, 'parseEpisodePage').mockResolvedValue(urls.map(url => ({ url, host: '127.0.0.1', quality: '720p', container: 'mp4' })));
+};
+
+/**
+ * Wait for a download to reach a status
+ */
+const waitForStatus = (downloadId: number, status: string) =>
+  vi.waitFor(async () => expect((await storage.getDownload(downloadId))?.status).toBe(status), { timeout: 5000 });
+
+describe('Downloader direct downloads', () => {
+  it('has the whole file on disk when the download is announced completed', async () => {
+    const download = await createDownload();
+
+    // What a subscriber such as the auto upload sees the moment it hears
+    const sizeOnCompletion = new Promise<number>((resolve, reject) => {
+      const unsubscribe = eventBus.subscribe(event => {
+        if (event.type === 'download:completed' && event.download.id === download.id) {
+          unsubscribe();
+          resolve(fs.statSync(event.download.filePath!).size);
+        } else if (event.type === 'download:error' && event.download.id === download.id) {
+          unsubscribe();
+          reject(new Error(event.error));
+        }
+      });
+    });
+
+    await downloader.enqueueDownload(download.id);
+
+    expect(await sizeOnCompletion).toBe(body.length);
+  });
+
+  it.each([
+    ['paused', (downloadId: number) => downloader.pauseDownload(downloadId)],
+    ['cancelled', (downloadId: number) => downloader.cancelDownload(downloadId)],
+  ])('stays %s when stopped while its video URL is resolved', async (status, stop) => {
+    const release = holdScrape();
+    const download = await createDownload({});
+
+    await downloader.enqueueDownload(download.id);
+    expect(await stop(download.id)).toBe(true);
+    release();
+    await vi.waitFor(() => expect(scraper.parseEpisodePage).toHaveBeenCalled());
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const stopped = await storage.getDownload(download.id);
+    expect(stopped?.status).toBe(status);
+    expect(stopped?.filePath).toBeNull();
+    expect(scraper.getSourceHtml).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Downloader recovery', () => {
+  beforeEach(() => {
+    // Only what recovery records is checked, nothing starts
+    vi.spyOn(downloader, 'processQueue').mockResolvedValue();
+  });
+
+  it('resumes interrupted downloads from their partial file', async () => {
+    const filePath = path.join(tempDir, 'interrupted.mp4');
+    fs.writeFileSync(filePath, Buffer.alloc(1000));
+    const startedAt = new Date('2025-01-01T12:00:00Z');
+    const download = await createDownload();
+    await storage.updateDownload(download.id, { status: 'downloading', filePath, totalSize: 4000, downloadedSize: 500, startedAt });
+
+    await downloader.recoverDownloads();
+
+    expect(await storage.getDownload(download.id)).toMatchObject({
+      status: 'queued',
+      downloadedSize: 1000,
+      progress: 25,
+      startedAt,
+    });
+    expect(downloader.processQueue).toHaveBeenCalled();
+  });
+
+  it('starts interrupted downloads over when nothing reached the disk', async () => {
+    const download = await createDownload();
+    await storage.updateDownload(download.id, {
+      status: 'downloading',
+      filePath: path.join(tempDir, 'never-written.mp4'),
+      downloadedSize: 500,
+      progress: 10,
+      startedAt: new Date(),
+    });
+
+    await downloader.recoverDownloads();
+
+    expect(await storage.getDownload(download.id)).toMatchObject({ status: 'queued', downloadedSize: 0, progress: 0, startedAt: null });
+  });
+
+  it('picks pending retries up where their backoff left off', async () => {
+    const due = await createDownload();
+    await storage.updateDownload(due.id, { status: 'retrying', nextRetryAt: new Date(Date.now() - 1000) });
+    const waiting = await createDownload();
+    await storage.updateDownload(waiting.id, { status: 'retrying', nextRetryAt: new Date(Date.now() + 60 * 60_000) });
+
+    await downloader.recoverDownloads();
+
+    await vi.waitFor(async () => expect((await storage.getDownload(due.id))?.status).toBe('queued'));
+    expect((await storage.getDownload(waiting.id))?.status).toBe('retrying');
+
+    // Drops the pending retry timer
+    await downloader.cancelDownload(waiting.id);
+  });
+});
+
+describe('Downloader queue', () => {
+  afterEach(async () => {
+    await settingsService.update({ maxConcurrentDownloads: 3 });
+  });
+
+  it('starts no more downloads than the concurrency limit and fills a freed slot', async () => {
+    await settingsService.update({ maxConcurrentDownloads: 1 });
+    const release = holdScrape();
+    const first = await createDownload({});
+    const second = await createDownload({});
+
+    await downloader.enqueueDownload(first.id);
+    await downloader.enqueueDownload(second.id);
+
+    await vi.waitFor(() => expect(scraper.getSourceHtml).toHaveBeenCalledTimes(1));
+    expect((await storage.getDownload(second.id))?.status).toBe('queued');
+
+    await downloader.pauseDownload(first.id);
+    release();
+
+    await vi.waitFor(async () => expect((await storage.getDownload(second.id))?.status).toBe('completed'));
+    expect(scraper.getSourceHtml).toHaveBeenCalledTimes(2);
+    expect((await storage.getDownload(first.id))?.status).toBe('paused');
+  });
+});
+
+describe('Downloader video URLs', () => {
+  it('resolves a video URL past its lifetime again before downloading', async () => {
+    mockScrape(videoUrl);
+    const download = await createDownload({ downloadUrl: `${baseUrl}/old.mp4`, downloadUrlResolvedAt: new Date(Date.now() - 2 * 60 * 60_000) });
+
+    await downloader.enqueueDownload(download.id);
+    await waitForStatus(download.id, 'completed');
+
+    expect(scraper.getSourceHtml).toHaveBeenCalledTimes(1);
+    const episode = await storage.getEpisode(download.episodeId);
+    expect(episode?.downloadUrl).toBe(videoUrl);
+    expect(Date.now() - episode!.downloadUrlResolvedAt!.getTime()).toBeLessThan(60_000);
+  });
+
+  it('resolves the video URL again when the CDN rejects it', async () => {
+    mockScrape(videoUrl);
+    const download = await createDownload({ downloadUrl: `${baseUrl}/expired-link.mp4` });
+
+    await downloader.enqueueDownload(download.id);
+    await waitForStatus(download.id, 'completed');
+
+    expect(scraper.getSourceHtml).toHaveBeenCalledTimes(1);
+    expect(fs.statSync((await storage.getDownload(download.id))!.filePath!).size).toBe(body.length);
+  });
+
+  it('fails when the fresh video URL is rejected as well', async () => {
+    mockScrape(`${baseUrl}/expired-again.mp4`);
+    const download = await createDownload({ downloadUrl: `${baseUrl}/expired-link.mp4` });
+
+    await downloader.enqueueDownload(download.id);
+    await waitForStatus(download.id, 'error');
+
+    expect(scraper.getSourceHtml).toHaveBeenCalledTimes(1);
+    expect((await storage.getDownload(download.id))?.error).toMatch(/403/);
+  });
+});
+
+describe('Downloader mirrors', () => {
+  const mirror = (url: string, host: string) => ({ url, host, quality: '720p', container: 'mp4' });
+
+  it('fails over to the next mirror when one has lost the file', async () => {
+    const missingUrl = `${baseUrl}/missing-episode.mp4`;
+    const download = await createDownload({ downloadUrl: missingUrl, sources: [mirror(missingUrl, 'first.example.com'), mirror(videoUrl, 'second.example.com')] });
+
+    await downloader.enqueueDownload(download.id);
+    await waitForStatus(download.id, 'completed');
+
+    expect(await storage.getDownload(download.id)).toMatchObject({ sourceIndex: 1, attempts: 0, lastError: expect.stringMatching(/404/) });
+    expect((await storage.getEpisode(download.episodeId))?.downloadUrl).toBe(videoUrl);
+  });
+
+  it('fails once the last mirror has failed', async () => {
+    const sources = [mirror(`${baseUrl}/missing-first.mp4`, 'first.example.com'), mirror(`${baseUrl}/missing-second.mp4`, 'second.example.com')];
+    const download = await createDownload({ downloadUrl: sources[0].url, sources });
+
+    await downloader.enqueueDownload(download.id);
+    await waitForStatus(download.id, 'error');
+
+    expect(await storage.getDownload(download.id)).toMatchObject({ sourceIndex: 1, error: expect.stringMatching(/404/) });
+  });
+});
+
+describe('Downloader HLS streams', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('leaves nothing behind when cancelled while remuxing', async () => {
+    // An ffmpeg that keeps appending to its output file until it is killed
+    const binDir = path.join(tempDir, 'bin');
+    fs.mkdirSync(binDir, { recursive: true });
+    fs.writeFileSync(path.join(binDir, 'ffmpeg'), '#!/bin/sh\nfor last; do :; done\nwhile true; do echo data >> "$last"; sleep 0.05; done\n', { mode: 0o755 });
+    vi.stubEnv('PATH', `${binDir}${path.delimiter}${process.env.PATH}`);
+
+    const download = await createDownload({ downloadUrl: `${baseUrl}/stream.m3u8` });
+    await downloader.enqueueDownload(download.id);
+    const filePath = await vi.waitFor(async () => {
+      const { filePath } = (await storage.getDownload(download.id))!;
+      expect(filePath && fs.existsSync(filePath)).toBe(true);
+      return filePath!;
+    });
+
+    expect(await downloader.cancelDownload(download.id)).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(fs.existsSync(`${filePath}.segments`)).toBe(false);
+    expect((await storage.getDownload(download.id))?.status).toBe('cancelled');
+  });
+});
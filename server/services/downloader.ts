@@ -1,23 +1,106 @@
 import fs from 'fs';
 import path from 'path';
-import fetch from 'node-fetch';
+import { once } from 'events';
+import { finished } from 'stream/promises';
 import { storage } from '../storage';
-import { Download, Episode } from '@shared/schema';
+import { scraper } from './scraper';
+import { Download, DownloadSchedule, Episode, VideoSource } from '@shared/schema';
+import {
+  isHlsUrl,
+  isHlsContentType,
+  loadMediaPlaylist,
+  downloadSegments,
+  remuxToMp4,
+} from './hls';
+import {
+  DownloadError,
+  RetryPolicy,
+  defaultRetryPolicy,
+  getRetryDelay,
+  isRetryableError,
+} from './retry';
+import { orderSourcesByQuality } from './quality';
+import { eventBus } from './events';
+import { settingsService } from './settings';
+import { TokenBucket, parseBandwidth } from './throttle';
+import { isWithinWindow, msUntil } from './schedule';
+import { toSeriesFolderName } from './paths';
+
+// Number of HLS segments fetched in parallel per download
+const HLS_SEGMENT_CONCURRENCY = 4;
+
+// A download that receives nothing for this long is treated as a stalled mirror
+const STALL_TIMEOUT_MS = 30_000;
+
+// How often finished files are checked against the retention setting
+const RETENTION_SWEEP_MS = 60 * 60_000;
+
+/**
+ * Write a chunk to a file, waiting for the stream to drain when its buffer
+ * is full so a fast mirror can't pile the whole file up in memory
+ */
+async function writeChunk(stream: fs.WriteStream, chunk: Buffer, signal: AbortSignal): Promise<void> {
+  if (stream.write(chunk)) return;
+
+  try {
+    await once(stream, 'drain', { signal });
+  } catch (error) {
+    // Surface why the download was aborted (paused, stalled), like a read would
+    throw signal.aborted ? signal.reason : error;
+  }
+}
+
+interface ActiveDownload {
+  abortController: AbortController;
+  resumePosition: number;
+  stream?: fs.WriteStream;
+  // Settles once nothing of the download touches the disk any more
+  task?: Promise<void>;
+}
 
 // Map to track active downloads and their abort controllers
-const activeDownloads = new Map<number, {
-  abortController: AbortController,
-  resumePosition: number,
-  stream?: fs.WriteStream,
-}>();
+const activeDownloads = new Map<number, ActiveDownload>();
 
 export class Downloader {
-  private downloadsDirectory: string;
+  private retryPolicy: RetryPolicy = defaultRetryPolicy;
+
+  // Scraped video URLs older than this are resolved again before downloading (0 disables)
+  private downloadUrlTtlMs: number;
+
+  // Pending retries, keyed by download ID
+  private retryTimers = new Map<number, NodeJS.Timeout>();
+
+  // Downloads currently holding a concurrency slot
+  private runningDownloads = new Set<number>();
+  private schedulingQueue = false;
+  private queueDirty = false;
+
+  // Speed limit shared by all downloads, and each download's own limit
+  private bandwidth = new TokenBucket();
+  private downloadBuckets = new Map<number, TokenBucket>();
+
+  // Download window state: a temporary override of it, the timer for its
+  // next change and whether the queue was last open
+  private scheduleOverride: { mode: 'run' | 'pause'; until: Date } | null = null;
+  private scheduleTimer: NodeJS.Timeout | null = null;
+  private queueOpen = true;
 
   constructor() {
-    // Create downloads directory in project root
-    this.downloadsDirectory = path.join(process.cwd(), 'downloads');
-    this.ensureDirectoryExists(this.downloadsDirectory);
+    this.downloadUrlTtlMs = parseInt(process.env.DOWNLOAD_URL_TTL_MINUTES || '60', 10) * 60_000;
+
+    // Running downloads are never interrupted; a lower limit takes effect
+    // as slots free up, a higher one starts queued downloads right away
+    settingsService.subscribe((settings, previous) => {
+      if (settings.maxConcurrentDownloads !== previous.maxConcurrentDownloads) {
+        console.log(`[Downloader] Max concurrent downloads set to ${settings.maxConcurrentDownloads}`);
+        this.processQueue();
+      }
+      if (settings.downloadWindowStart !== previous.downloadWindowStart || settings.downloadWindowEnd !== previous.downloadWindowEnd) {
+        this.applySchedule();
+      }
+    });
+
+    setInterval(() => this.pruneExpiredFiles(), RETENTION_SWEEP_MS).unref();
   }
 
   private ensureDirectoryExists(dirPath: string) {
@@ -27,22 +110,203 @@ export class Downloader {
   }
 
   /**
-   * Start a download for an episode
+   * Get the maximum number of downloads that may run at once
+   */
+  getMaxConcurrent(): number {
+    return settingsService.get().maxConcurrentDownloads;
+  }
+
+  /**
+   * Directory downloads are saved under, from the download path setting
+   */
+  getDownloadsDirectory(): string {
+    const directory = path.resolve(process.cwd(), settingsService.get().downloadPath);
+    this.ensureDirectoryExists(directory);
+    return directory;
+  }
+
+  /**
+   * Get the retry policy applied to failed downloads
+   */
+  getRetryPolicy(): RetryPolicy {
+    return this.retryPolicy;
+  }
+
+  /**
+   * Put a download in the queue and let the scheduler pick it up
+   */
+  async enqueueDownload(downloadId: number): Promise<void> {
+    await this.updateDownload(downloadId, { status: 'queued' });
+    await this.processQueue();
+  }
+
+  /**
+   * Start queued downloads, oldest first, until every slot is taken
+   */
+  async processQueue(): Promise<void> {
+    // Only one pass at a time; a request made mid-pass triggers another one
+    if (this.schedulingQueue) {
+      this.queueDirty = true;
+      return;
+    }
+
+    this.schedulingQueue = true;
+    try {
+      do {
+        this.queueDirty = false;
+        const queued = await storage.getDownloadsByStatus('queued');
+
+        for (const download of queued) {
+          if (!this.isQueueOpen()) break;
+          if (this.runningDownloads.size >= this.getMaxConcurrent()) break;
+          if (this.runningDownloads.has(download.id)) continue;
+
+          this.runningDownloads.add(download.id);
+          this.startDownload(download.id);
+        }
+      } while (this.queueDirty);
+    } catch (error) {
+      console.error('Error processing download queue:', error);
+    } finally {
+      this.schedulingQueue = false;
+    }
+  }
+
+  /**
+   * Free the slot held by a download and promote the next queued one
    */
-  async startDownload(downloadId: number): Promise<void> {
+  private releaseSlot(downloadId: number): void {
+    activeDownloads.delete(downloadId);
+    this.downloadBuckets.delete(downloadId);
+    if (this.runningDownloads.delete(downloadId)) {
+      this.processQueue();
+    }
+  }
+
+  /**
+   * Record a failed attempt. Retryable failures go back into the queue after
+   * an exponential backoff until the policy runs out of attempts. Mirrors
+   * that fail for good, or stall, hand over to the next source if there is one.
+   */
+  private async handleDownloadError(downloadId: number, error: any): Promise<void> {
+    try {
+      const download = await storage.getDownload(downloadId);
+      if (!download) return;
+
+      const attempts = (download.attempts || 0) + 1;
+      const message = `${error}`;
+      const retryable = isRetryableError(error, this.retryPolicy);
+      const stalled = error instanceof DownloadError && error.stalled;
+
+      if ((!retryable || stalled || attempts >= this.retryPolicy.maxAttempts) && await this.failOver(download, message)) {
+        return;
+      }
+
+      if (retryable && attempts < this.retryPolicy.maxAttempts) {
+        const delay = getRetryDelay(attempts, this.retryPolicy);
+        console.log(`[Downloader] Download ${downloadId} failed (${message}), retrying in ${Math.round(delay / 1000)}s (attempt ${attempts + 1}/${this.retryPolicy.maxAttempts})`);
+
+        await this.updateDownload(downloadId, {
+          status: 'retrying',
+          attempts,
+          lastError: message,
+          error: message,
+          speed: 0,
+          nextRetryAt: new Date(Date.now() + delay),
+        });
+        this.scheduleRetry(downloadId, delay);
+      } else {
+        await this.updateDownload(downloadId, {
+          status: 'error',
+          attempts,
+          lastError: message,
+          error: message,
+          speed: 0,
+          nextRetryAt: null,
+        });
+      }
+    } catch (updateError) {
+      console.error(`Error recording failure for download ${downloadId}:`, updateError);
+    } finally {
+      this.releaseSlot(downloadId);
+    }
+  }
+
+  /**
+   * Put a download back into the queue once its backoff delay has passed
+   */
+  private scheduleRetry(downloadId: number, delay: number): void {
+    this.clearRetry(downloadId);
+
+    const timer = setTimeout(async () => {
+      this.retryTimers.delete(downloadId);
+
+      const download = await storage.getDownload(downloadId);
+      if (download && download.status === 'retrying') {
+        await this.enqueueDownload(downloadId);
+      }
+    }, delay);
+
+    this.retryTimers.set(downloadId, timer);
+  }
+
+  /**
+   * Drop a pending retry, if any
+   */
+  private clearRetry(downloadId: number): void {
+    const timer = this.retryTimers.get(downloadId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(downloadId);
+    }
+  }
+
+  /**
+   * Update a download and publish the change on the event bus
+   */
+  private async updateDownload(downloadId: number, data: Partial<Download>): Promise<Download | undefined> {
+    const download = await storage.updateDownload(downloadId, data);
+    if (!download) return download;
+
+    if (data.status === 'completed') {
+      eventBus.emit({ type: 'download:completed', download });
+    } else if (data.status === 'error') {
+      eventBus.emit({ type: 'download:error', download, error: download.error || 'Unknown error' });
+    } else if (data.status) {
+      eventBus.emit({ type: 'download:status', download });
+    } else {
+      eventBus.emit({ type: 'download:progress', download });
+    }
+
+    return download;
+  }
+
+  /**
+   * Start a download for an episode. Called by the scheduler once a slot
+   * is free; use enqueueDownload to add a download to the queue.
+   */
+  private async startDownload(downloadId: number): Promise<void> {
+    // Registered before anything is awaited, so a pause or cancel while the
+    // video URL is still being resolved has something to abort
+    const activeDownload: ActiveDownload = { abortController: new AbortController(), resumePosition: 0 };
+    activeDownloads.set(downloadId, activeDownload);
+
     try {
       const download = await storage.getDownload(downloadId);
       if (!download) {
         throw new Error(`Download with ID ${downloadId} not found`);
       }
 
-      const episode = await storage.getEpisode(download.episodeId);
+      let episode = await storage.getEpisode(download.episodeId);
       if (!episode) {
         throw new Error(`Episode with ID ${download.episodeId} not found`);
       }
 
-      if (!episode.downloadUrl) {
-        throw new Error(`No download URL for episode with ID ${download.episodeId}`);
+      // Video links are tokenized and expire, so stale ones are scraped again
+      if (!episode.downloadUrl || this.isDownloadUrlExpired(episode)) {
+        episode = await this.refreshDownloadUrl(download, episode);
+      } else {
+        episode = await this.selectSource(download, episode);
       }
 
       // Create directory structure
@@ -52,7 +316,7 @@ export class Downloader {
       }
 
       // Create directory path: downloads/series-name/season-x
-      const seriesDir = path.join(this.downloadsDirectory, this.sanitizePathName(series.title));
+      const seriesDir = path.join(this.getDownloadsDirectory(), toSeriesFolderName(series.title));
       this.ensureDirectoryExists(seriesDir);
 
       const seasonDir = path.join(seriesDir, `season-${episode.season || 1}`);
@@ -62,21 +326,152 @@ export class Downloader {
       const fileName = `episode-${episode.episodeNumber || 0}.mp4`;
       const filePath = path.join(seasonDir, fileName);
 
+      // A download that already ran before (paused or interrupted) continues from its partial file,
+      // anything else left at that path is stale
+      if (!download.startedAt) {
+        this.removePartialData(filePath);
+      }
+
+      // Paused, cancelled or held back by the schedule in the meantime
+      const current = await storage.getDownload(downloadId);
+      if (activeDownload.abortController.signal.aborted || current?.status !== 'queued') {
+        this.releaseSlot(downloadId);
+        return;
+      }
+
       // Update download with file path
-      await storage.updateDownload(downloadId, {
+      await this.updateDownload(downloadId, {
         filePath,
         status: 'downloading',
-        startedAt: new Date(),
+        startedAt: download.startedAt || new Date(),
       });
 
       // Start the download
-      this.downloadFile(downloadId, episode, filePath);
+      activeDownload.task = this.downloadFile(downloadId, episode, filePath, activeDownload);
     } catch (error) {
+      if (activeDownload.abortController.signal.aborted) {
+        this.releaseSlot(downloadId);
+        return;
+      }
+
       console.error(`Error starting download ${downloadId}:`, error);
-      await storage.updateDownload(downloadId, {
-        status: 'error',
-        error: `${error}`,
-      });
+      await this.handleDownloadError(downloadId, error);
+    }
+  }
+
+  /**
+   * Check whether the cached video URL of an episode is past its TTL
+   */
+  private isDownloadUrlExpired(episode: Episode): boolean {
+    if (this.downloadUrlTtlMs <= 0) return false;
+    if (!episode.downloadUrlResolvedAt) return true;
+    return Date.now() - episode.downloadUrlResolvedAt.getTime() > this.downloadUrlTtlMs;
+  }
+
+  /**
+   * Episode sources in the order a download tries them, by its quality preference
+   */
+  private getDownloadSources(download: Download, sources: VideoSource[] | null): VideoSource[] {
+    return orderSourcesByQuality(sources || [], download.quality);
+  }
+
+  /**
+   * Point the episode at the source the download is set to use. Episodes are
+   * shared, so another download may have left a different quality there.
+   */
+  private async selectSource(download: Download, episode: Episode): Promise<Episode> {
+    const source = this.getDownloadSources(download, episode.sources)[download.sourceIndex || 0];
+    if (!source || source.url === episode.downloadUrl) {
+      return episode;
+    }
+
+    console.log(`[Downloader] Download ${download.id} using ${source.quality || 'unknown'} quality source on ${source.host}`);
+    const updated = await storage.updateEpisode(episode.id, { downloadUrl: source.url });
+    return updated || { ...episode, downloadUrl: source.url };
+  }
+
+  /**
+   * Scrape the episode page again for fresh video URLs. The download stays
+   * on the mirror and quality it was using when that source is still listed.
+   */
+  private async refreshDownloadUrl(download: Download, episode: Episode): Promise<Episode> {
+    console.log(`[Downloader] Re-resolving video URL for episode ${episode.id} from ${episode.sourceUrl}`);
+
+    const html = await scraper.getSourceHtml(episode.sourceUrl);
+    const sources = await scraper.parseEpisodePage(html, episode.sourceUrl);
+
+    if (sources.length === 0) {
+      throw new DownloadError(`Could not resolve a video URL for episode ${episode.id}`, { retryable: true });
+    }
+
+    const current = episode.sources?.find(source => source.url === episode.downloadUrl);
+    const currentHost = episode.downloadUrl ? this.getHost(episode.downloadUrl) : null;
+    const ordered = this.getDownloadSources(download, sources);
+
+    let sourceIndex = ordered.findIndex(source => source.host === currentHost && source.quality === current?.quality);
+    if (sourceIndex < 0) {
+      sourceIndex = Math.max(ordered.findIndex(source => source.host === currentHost), 0);
+    }
+    const downloadUrl = ordered[sourceIndex].url;
+
+    await this.updateDownload(download.id, { sourceIndex });
+    const updated = await storage.updateEpisode(episode.id, {
+      downloadUrl,
+      downloadUrlResolvedAt: new Date(),
+      sources,
+    });
+    return updated || { ...episode, downloadUrl, sources };
+  }
+
+  /**
+   * Switch a failing download to the next mirror of its episode. The partial
+   * file is dropped since bytes from different mirrors don't line up.
+   */
+  private async failOver(download: Download, reason: string): Promise<boolean> {
+    const episode = await storage.getEpisode(download.episodeId);
+    const sources = this.getDownloadSources(download, episode?.sources || null);
+    const nextIndex = (download.sourceIndex || 0) + 1;
+
+    if (!episode || nextIndex >= sources.length) {
+      return false;
+    }
+
+    const next = sources[nextIndex];
+    console.log(`[Downloader] Download ${download.id} failing over to mirror ${nextIndex + 1}/${sources.length} (${next.host}): ${reason}`);
+
+    if (download.filePath) {
+      this.removePartialData(download.filePath);
+    }
+
+    await storage.updateEpisode(episode.id, {
+      downloadUrl: next.url,
+      downloadUrlResolvedAt: new Date(),
+    });
+    await this.updateDownload(download.id, {
+      status: 'queued',
+      sourceIndex: nextIndex,
+      attempts: 0,
+      progress: 0,
+      downloadedSize: 0,
+      totalSize: null,
+      speed: 0,
+      error: null,
+      lastError: reason,
+      nextRetryAt: null,
+      startedAt: null,
+    });
+
+    return true;
+  }
+
+  /**
+   * Hostname of a URL, or null when it can't be parsed
+   */
+  private getHost(url: string): string | null {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return null;
     }
   }
 
@@ -86,7 +481,15 @@ export class Downloader {
   async pauseDownload(downloadId: number): Promise<boolean> {
     const activeDownload = activeDownloads.get(downloadId);
     if (!activeDownload) {
-      return false;
+      // A download still waiting in the queue, or for a retry, can be held back as well
+      const download = await storage.getDownload(downloadId);
+      if (!download || (download.status !== 'queued' && download.status !== 'retrying')) {
+        return false;
+      }
+
+      this.clearRetry(downloadId);
+      await this.updateDownload(downloadId, { status: 'paused', nextRetryAt: null });
+      return true;
     }
 
     // Abort current request
@@ -98,7 +501,7 @@ export class Downloader {
     }
     
     // Update download status
-    await storage.updateDownload(downloadId, { status: 'paused' });
+    await this.updateDownload(downloadId, { status: 'paused' });
     
     return true;
   }
@@ -118,11 +521,8 @@ export class Downloader {
         return false;
       }
 
-      // Update status
-      await storage.updateDownload(downloadId, { status: 'downloading' });
-      
-      // Start download from where we left off
-      this.downloadFile(downloadId, episode, download.filePath || '');
+      // Back into the queue; it continues from where it left off once a slot is free
+      await this.enqueueDownload(downloadId);
       
       return true;
     } catch (error) {
@@ -135,6 +535,8 @@ export class Downloader {
    * Cancel a download
    */
   async cancelDownload(downloadId: number): Promise<boolean> {
+    this.clearRetry(downloadId);
+
     const activeDownload = activeDownloads.get(downloadId);
     if (activeDownload) {
       // Abort current request
@@ -144,53 +546,178 @@ export class Downloader {
       if (activeDownload.stream) {
         activeDownload.stream.close();
       }
-      
-      // Remove from active downloads
-      activeDownloads.delete(downloadId);
+
+      // Segment workers and an ffmpeg remux stop on the abort, wait for
+      // them so nothing writes into the partial data being deleted
+      await activeDownload.task;
     }
     
     // Get download info
     const download = await storage.getDownload(downloadId);
-    if (download && download.filePath && fs.existsSync(download.filePath)) {
+    if (download && download.filePath) {
       // Delete the partial file
-      fs.unlinkSync(download.filePath);
+      this.removePartialData(download.filePath);
     }
     
     // Update download status
-    await storage.updateDownload(downloadId, { 
+    await this.updateDownload(downloadId, { 
       status: 'cancelled',
       progress: 0,
-      downloadedSize: 0
+      downloadedSize: 0,
+      nextRetryAt: null
     });
+
+    // Only now, so the scheduler doesn't pick it up again while it still looks queued
+    if (activeDownload) {
+      this.releaseSlot(downloadId);
+    }
     
     return true;
   }
 
   /**
-   * Download a file with resume capability
+   * Recover downloads left behind by a previous run of the server.
+   * Interrupted downloads go back into the queue and resume from their
+   * partial file, or start over when nothing was written to disk yet.
+   */
+  async recoverDownloads(): Promise<void> {
+    const interrupted = await storage.getDownloadsByStatus('downloading');
+    const queued = await storage.getDownloadsByStatus('queued');
+    const retrying = await storage.getDownloadsByStatus('retrying');
+    console.log(`[Downloader] Recovering ${interrupted.length} interrupted, ${queued.length} queued and ${retrying.length} retrying downloads`);
+
+    // Pick up pending retries where their backoff left off
+    for (const download of retrying) {
+      const delay = download.nextRetryAt ? download.nextRetryAt.getTime() - Date.now() : 0;
+      this.scheduleRetry(download.id, Math.max(delay, 0));
+    }
+
+    for (const download of interrupted) {
+      try {
+        const partialSize = this.getPartialSize(download.filePath);
+
+        if (partialSize > 0) {
+          // Trust the file on disk over the last recorded progress
+          await this.updateDownload(download.id, {
+            status: 'queued',
+            downloadedSize: partialSize,
+            progress: download.totalSize ? Math.floor((partialSize / download.totalSize) * 100) : 0,
+            speed: 0,
+          });
+
+          console.log(`[Downloader] Download ${download.id} will resume from byte ${partialSize}`);
+        } else {
+          await this.updateDownload(download.id, {
+            status: 'queued',
+            progress: 0,
+            downloadedSize: 0,
+            speed: 0,
+            startedAt: null,
+          });
+
+          console.log(`[Downloader] No partial file for download ${download.id}, re-queued`);
+        }
+      } catch (error) {
+        console.error(`Error recovering download ${download.id}:`, error);
+      }
+    }
+
+    await this.applySchedule();
+  }
+
+  /**
+   * Size of the partial file for a download, or 0 if there is none.
+   * HLS downloads count the segments fetched so far.
+   */
+  private getPartialSize(filePath: string | null): number {
+    if (!filePath) {
+      return 0;
+    }
+
+    if (fs.existsSync(filePath)) {
+      return fs.statSync(filePath).size;
+    }
+
+    const segmentsDir = this.getSegmentsDir(filePath);
+    if (fs.existsSync(segmentsDir)) {
+      return fs.readdirSync(segmentsDir)
+        .filter(file => !file.endsWith('.part'))
+        .reduce((sum, file) => sum + fs.statSync(path.join(segmentsDir, file)).size, 0);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Delete whatever a download has written to disk so far
+   */
+  private removePartialData(filePath: string): void {
+    fs.rmSync(filePath, { force: true });
+    fs.rmSync(this.getSegmentsDir(filePath), { recursive: true, force: true });
+  }
+
+  /**
+   * Delete finished files older than the retention setting. The download
+   * records stay in the history.
    */
-  private async downloadFile(downloadId: number, episode: Episode, filePath: string): Promise<void> {
+  async pruneExpiredFiles(): Promise<void> {
+    const { retentionDays } = settingsService.get();
+    if (retentionDays <= 0) return;
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60_000;
+    const finished = [
+      ...await storage.getDownloadsByStatus('completed'),
+      ...await storage.getDownloadsByStatus('uploaded'),
+    ];
+
+    for (const download of finished) {
+      if (!download.filePath || !download.completedAt || download.completedAt.getTime() > cutoff) continue;
+      if (!fs.existsSync(download.filePath)) continue;
+
+      try {
+        fs.rmSync(download.filePath, { force: true });
+        console.log(`[Downloader] Removed ${download.filePath}, older than ${retentionDays} days`);
+      } catch (error) {
+        console.error(`Error removing expired file for download ${download.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Directory holding the HLS segments of a download until they are remuxed
+   */
+  private getSegmentsDir(filePath: string): string {
+    return `${filePath}.segments`;
+  }
+
+  /**
+   * Download a file with resume capability. Whatever is already on disk at
+   * filePath is kept and the download continues after it.
+   */
+  private async downloadFile(
+    downloadId: number,
+    episode: Episode,
+    filePath: string,
+    activeDownload: ActiveDownload,
+    urlRefreshed: boolean = false,
+  ): Promise<void> {
+    const { abortController } = activeDownload;
+
     try {
       const download = await storage.getDownload(downloadId);
       if (!download) {
         throw new Error('Download not found');
       }
       
-      // Create a new abort controller
-      const abortController = new AbortController();
-      
       // Get downloaded bytes so far (if resuming)
-      let resumePosition = 0;
-      if (download.status === 'paused' && fs.existsSync(filePath)) {
-        const stats = fs.statSync(filePath);
-        resumePosition = stats.size;
+      let resumePosition = this.getPartialSize(filePath);
+      activeDownload.resumePosition = resumePosition;
+      this.downloadBuckets.set(downloadId, new TokenBucket(download.rateLimit || 0));
+
+      if (isHlsUrl(episode.downloadUrl!)) {
+        await this.downloadHls(downloadId, episode.downloadUrl!, filePath, abortController);
+        return;
       }
-      
-      // Store in active downloads map
-      activeDownloads.set(downloadId, { 
-        abortController, 
-        resumePosition
-      });
 
       // Create headers for range request if resuming
       const headers: Record<string, string> = {};
@@ -205,7 +732,22 @@ export class Downloader {
       });
 
       if (!response.ok && response.status !== 206) {
-        throw new Error(`Failed to download: ${response.status} ${response.statusText}`);
+        throw new DownloadError(`Failed to download: ${response.status} ${response.statusText}`, {
+          status: response.status,
+        });
+      }
+
+      // Playlists served without an .m3u8 extension are only recognisable by their Content-Type
+      if (isHlsContentType(response.headers.get('content-type'))) {
+        await response.body?.cancel();
+        await this.downloadHls(downloadId, episode.downloadUrl!, filePath, abortController);
+        return;
+      }
+
+      // Server ignored the Range header, so start over from the beginning
+      if (resumePosition > 0 && response.status !== 206) {
+        console.log(`[Downloader] Range not supported for download ${downloadId}, restarting from 0`);
+        resumePosition = 0;
       }
 
       // Get content length from headers
@@ -214,18 +756,16 @@ export class Downloader {
       
       // Update total size in database if it's not set yet
       if (!download.totalSize) {
-        await storage.updateDownload(downloadId, { totalSize });
+        await this.updateDownload(downloadId, { totalSize });
       }
 
-      // Create write stream to file
+      // Create write stream to file, a failed write (e.g. a full disk) fails the download
       const fileStream = fs.createWriteStream(filePath, { flags: resumePosition > 0 ? 'a' : 'w' });
+      fileStream.on('error', error => abortController.abort(error));
       
       // Update active download with stream
-      activeDownloads.set(downloadId, { 
-        abortController, 
-        resumePosition,
-        stream: fileStream
-      });
+      activeDownload.resumePosition = resumePosition;
+      activeDownload.stream = fileStream;
 
       // Track download progress
       let downloadedBytes = resumePosition;
@@ -235,27 +775,54 @@ export class Downloader {
 
       // Create a reading stream from the response body
       const reader = response.body!.getReader();
+
+      // Abort when the mirror stops sending data
+      let stallTimer: NodeJS.Timeout | undefined;
+      const resetStallTimer = () => {
+        clearTimeout(stallTimer);
+        stallTimer = setTimeout(() => {
+          abortController.abort(new DownloadError(`No data received for ${STALL_TIMEOUT_MS / 1000}s`, { stalled: true }));
+        }, STALL_TIMEOUT_MS);
+      };
+      resetStallTimer();
       
       const processChunk = async ({ done, value }: { done: boolean, value?: Uint8Array }): Promise<void> => {
         if (done) {
+          clearTimeout(stallTimer);
+
+          // The connection dropped before the whole body arrived
+          if (contentLength > 0 && downloadedBytes < totalSize) {
+            throw new DownloadError(`Connection closed after ${downloadedBytes} of ${totalSize} bytes`, {
+              retryable: true,
+            });
+          }
+
+          // Every byte is on disk and the file closed before anything,
+          // such as an auto upload, hears the download completed
           fileStream.end();
-          activeDownloads.delete(downloadId);
+          await finished(fileStream);
           
           // Update download status to completed
-          await storage.updateDownload(downloadId, {
+          await this.updateDownload(downloadId, {
             status: 'completed',
             progress: 100,
             downloadedSize: totalSize,
             completedAt: new Date(),
-            speed: 0
+            speed: 0,
+            error: null,
+            nextRetryAt: null
           });
+          this.releaseSlot(downloadId);
           
           return;
         }
         
         if (value) {
+          // Waiting on the rate limit isn't a stall, the timer restarts with the next read
+          clearTimeout(stallTimer);
+
           // Write chunk to file
-          fileStream.write(Buffer.from(value));
+          await writeChunk(fileStream, Buffer.from(value), abortController.signal);
           
           // Update progress
           downloadedBytes += value.length;
@@ -271,7 +838,7 @@ export class Downloader {
             const speed = Math.floor(bytesDiff / (timeDiff / 1000));
             
             // Update download in database
-            await storage.updateDownload(downloadId, {
+            await this.updateDownload(downloadId, {
               progress,
               downloadedSize: downloadedBytes,
               speed
@@ -281,6 +848,10 @@ export class Downloader {
             lastUpdate = now;
             lastBytes = downloadedBytes;
           }
+
+          // Not reading holds the socket back, so the server slows down too
+          await this.throttle(downloadId, value.length, abortController.signal);
+          resetStallTimer();
         }
         
         // Process next chunk
@@ -288,49 +859,249 @@ export class Downloader {
       };
       
       // Start processing chunks
-      reader.read().then(processChunk).catch(async (error) => {
+      await reader.read().then(processChunk).catch(async (error) => {
+        clearTimeout(stallTimer);
+
         if (error.name === 'AbortError') {
-          // Download was paused or cancelled
+          // Download was paused or cancelled, the partial file is kept for resuming later
           fileStream.end();
-          
-          // Record current position for resuming later
-          activeDownloads.set(downloadId, { 
-            abortController, 
-            resumePosition: downloadedBytes 
-          });
+          await finished(fileStream).catch(() => {});
+          this.releaseSlot(downloadId);
         } else {
           // Unexpected error
           fileStream.end();
-          activeDownloads.delete(downloadId);
-          
-          // Update download status to error
-          await storage.updateDownload(downloadId, {
-            status: 'error',
-            error: `${error}`
-          });
+          console.error(`Error downloading file for download ${downloadId}:`, error);
+          await this.handleDownloadError(downloadId, error);
         }
       });
       
-    } catch (error) {
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        // Paused or cancelled before the response arrived
+        this.releaseSlot(downloadId);
+        return;
+      }
+
+      // The CDN rejected an expired link, scrape a fresh one and continue from the same offset
+      if (!urlRefreshed && error instanceof DownloadError && (error.status === 403 || error.status === 410)) {
+        console.log(`[Downloader] Video URL for download ${downloadId} rejected with ${error.status}, re-resolving`);
+        try {
+          const download = await storage.getDownload(downloadId);
+          if (!download) throw error;
+          const refreshed = await this.refreshDownloadUrl(download, episode);
+
+          // Paused or cancelled while the page was being scraped
+          const current = await storage.getDownload(downloadId);
+          if (!current || current.status !== 'downloading') {
+            this.releaseSlot(downloadId);
+            return;
+          }
+
+          return this.downloadFile(downloadId, refreshed, filePath, activeDownload, true);
+        } catch (refreshError) {
+          error = refreshError;
+        }
+      }
+
       console.error(`Error downloading file for download ${downloadId}:`, error);
-      activeDownloads.delete(downloadId);
-      
-      // Update download status to error
-      await storage.updateDownload(downloadId, {
-        status: 'error',
-        error: `${error}`
-      });
+      await this.handleDownloadError(downloadId, error);
     }
   }
 
   /**
-   * Sanitize a string to be used as a directory name
+   * Download an HLS stream segment by segment and remux it into an MP4 file
+   */
+  private async downloadHls(
+    downloadId: number,
+    playlistUrl: string,
+    filePath: string,
+    abortController: AbortController,
+  ): Promise<void> {
+    // Segments already on disk are kept, so a resumed download only fetches the rest
+    const segmentsDir = this.getSegmentsDir(filePath);
+
+    const playlist = await loadMediaPlaylist(playlistUrl, abortController.signal);
+    const totalSegments = playlist.segments.length + (playlist.initUri ? 1 : 0);
+    console.log(`[Downloader] Downloading ${totalSegments} HLS segments for download ${downloadId}`);
+
+    // Progress is based on the segment count, the byte total is only an estimate
+    let completedSegments = 0;
+    let downloadedBytes = 0;
+    let lastUpdate = Date.now();
+    let lastBytes = 0;
+
+    const segmentFiles = await downloadSegments(playlist, segmentsDir, {
+      concurrency: HLS_SEGMENT_CONCURRENCY,
+      signal: abortController.signal,
+      throttle: (bytes, signal) => this.throttle(downloadId, bytes, signal),
+      onSegment: (bytes, cached) => {
+        completedSegments++;
+        downloadedBytes += bytes;
+        if (cached) lastBytes += bytes;
+
+        const now = Date.now();
+        const timeDiff = now - lastUpdate;
+
+        // Update progress every second
+        if (timeDiff >= 1000) {
+          const speed = Math.floor((downloadedBytes - lastBytes) / (timeDiff / 1000));
+          this.updateDownload(downloadId, {
+            // Keep the last percent for the remux step
+            progress: Math.min(99, Math.floor((completedSegments / totalSegments) * 100)),
+            downloadedSize: downloadedBytes,
+            totalSize: Math.round((downloadedBytes / completedSegments) * totalSegments),
+            speed,
+          });
+
+          lastUpdate = now;
+          lastBytes = downloadedBytes;
+        }
+      },
+    });
+
+    console.log(`[Downloader] Remuxing ${segmentFiles.length} HLS segments into ${filePath}`);
+    await this.updateDownload(downloadId, { progress: 99, speed: 0 });
+    await remuxToMp4(segmentFiles, filePath, abortController.signal);
+    fs.rmSync(segmentsDir, { recursive: true, force: true });
+
+    const fileSize = fs.statSync(filePath).size;
+    await this.updateDownload(downloadId, {
+      status: 'completed',
+      progress: 100,
+      totalSize: fileSize,
+      downloadedSize: fileSize,
+      completedAt: new Date(),
+      speed: 0,
+      error: null,
+      nextRetryAt: null
+    });
+    this.releaseSlot(downloadId);
+  }
+
+  /**
+   * Whether the queue may start downloads now: inside the download window,
+   * or any time when none is set, unless an override says otherwise
+   */
+  isQueueOpen(): boolean {
+    if (this.scheduleOverride && this.scheduleOverride.until.getTime() > Date.now()) {
+      return this.scheduleOverride.mode === 'run';
+    }
+
+    const { downloadWindowStart: start, downloadWindowEnd: end } = settingsService.get();
+    if (!start || !end || start === end) return true;
+    return isWithinWindow(start, end);
+  }
+
+  /**
+   * The download window, any override of it and whether the queue is open
+   */
+  getSchedule(): DownloadSchedule {
+    const { downloadWindowStart, downloadWindowEnd } = settingsService.get();
+    const override = this.scheduleOverride && this.scheduleOverride.until.getTime() > Date.now()
+      ? { mode: this.scheduleOverride.mode, until: this.scheduleOverride.until.toISOString() }
+      : null;
+
+    return {
+      open: this.isQueueOpen(),
+      windowStart: downloadWindowStart,
+      windowEnd: downloadWindowEnd,
+      override,
+    };
+  }
+
+  /**
+   * Run the queue outside the download window, or pause it inside, for a
+   * while. A null mode goes back to the schedule.
+   */
+  async overrideSchedule(mode: 'run' | 'pause' | null, minutes: number): Promise<DownloadSchedule> {
+    this.scheduleOverride = mode ? { mode, until: new Date(Date.now() + minutes * 60_000) } : null;
+    console.log(mode
+      ? `[Downloader] Queue set to ${mode} for ${minutes} minutes regardless of the schedule`
+      : '[Downloader] Queue follows the schedule again');
+
+    await this.applySchedule();
+    return this.getSchedule();
+  }
+
+  /**
+   * Open or close the queue for the download window and any override, and
+   * come back when either next changes. Closing puts running downloads back
+   * into the queue, they continue from their partial files once it opens.
+   */
+  private async applySchedule(): Promise<void> {
+    if (this.scheduleTimer) {
+      clearTimeout(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+
+    if (this.scheduleOverride && this.scheduleOverride.until.getTime() <= Date.now()) {
+      this.scheduleOverride = null;
+      console.log('[Downloader] Schedule override ended');
+    }
+
+    const { downloadWindowStart: start, downloadWindowEnd: end } = settingsService.get();
+    const delays: number[] = [];
+    if (this.scheduleOverride) {
+      delays.push(this.scheduleOverride.until.getTime() - Date.now());
+    }
+    if (start && end && start !== end) {
+      delays.push(msUntil(isWithinWindow(start, end) ? end : start));
+    }
+    if (delays.length > 0) {
+      this.scheduleTimer = setTimeout(() => this.applySchedule(), Math.min(...delays));
+      this.scheduleTimer.unref();
+    }
+
+    const open = this.isQueueOpen();
+    if (open !== this.queueOpen) {
+      this.queueOpen = open;
+      console.log(`[Downloader] Download queue ${open ? 'opened' : 'paused'}`);
+    }
+    eventBus.emit({ type: 'queue:schedule', schedule: this.getSchedule() });
+
+    if (open) {
+      await this.processQueue();
+    } else {
+      await this.holdRunningDownloads();
+    }
+  }
+
+  /**
+   * Stop running downloads and queue them again, keeping their partial files
+   */
+  private async holdRunningDownloads(): Promise<void> {
+    for (const downloadId of Array.from(this.runningDownloads)) {
+      const activeDownload = activeDownloads.get(downloadId);
+      if (!activeDownload) continue;
+
+      activeDownload.abortController.abort();
+      activeDownload.stream?.close();
+      await this.updateDownload(downloadId, { status: 'queued', speed: 0 });
+    }
+  }
+
+  /**
+   * Wait until a download may take in more bytes, under its own speed limit
+   * and the one all downloads share
+   */
+  private async throttle(downloadId: number, bytes: number, signal: AbortSignal): Promise<void> {
+    const sharedRate = parseBandwidth(settingsService.get().downloadBandwidth);
+    if (sharedRate !== this.bandwidth.getRate()) {
+      this.bandwidth.setRate(sharedRate);
+    }
+
+    await this.downloadBuckets.get(downloadId)?.take(bytes, signal);
+    await this.bandwidth.take(bytes, signal);
+  }
+
+  /**
+   * Set a download's own speed limit in bytes per second, null lifts it.
+   * A running download picks it up with its next chunk.
    */
-  private sanitizePathName(name: string): string {
-    return name
-      .replace(/[/\\?%*:|"<>]/g, '-') // Remove invalid file characters
-      .replace(/\s+/g, '-')           // Replace spaces with hyphens
-      .toLowerCase();
+  async setRateLimit(downloadId: number, rateLimit: number | null): Promise<Download | undefined> {
+    const download = await this.updateDownload(downloadId, { rateLimit });
+    this.downloadBuckets.get(downloadId)?.setRate(rateLimit || 0);
+    return download;
   }
 }
 
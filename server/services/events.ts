@@ -0,0 +1,34 @@
+import { EventEmitter } from 'events';
+import { AppEvent } from '@shared/schema';
+
+/**
+ * In-process bus the Downloader and RcloneService publish progress, status
+ * changes, completions and errors on. The /ws socket relays it to clients.
+ */
+export class EventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish an event to every subscriber
+   */
+  emit(event: AppEvent): void {
+    this.emitter.emit('event', event);
+  }
+
+  /**
+   * Listen for events, returns a function that stops listening
+   */
+  subscribe(listener: (event: AppEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+}
+
+export const eventBus = new EventBus();
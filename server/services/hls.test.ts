@@ -0,0 +1,99 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { downloadSegments, HlsPlaylist, remuxToMp4 } from './hls';
+
+let server: http.Server;
+let baseUrl: string;
+let tempDir: string;
+
+// Segments named "slow-*" answer after a delay, "missing-*" with a 404
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url?.startsWith('/missing-')) {
+      res.writeHead(404).end();
+    } else if (req.url?.startsWith('/slow-')) {
+      setTimeout(() => res.end(`segment ${req.url}`), 200);
+    } else {
+      res.end(`segment ${req.url}`);
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hls-test-'));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const playlist = (...names: string[]): HlsPlaylist => ({
+  url: `${baseUrl}/index.m3u8`,
+  segments: names.map((name, sequence) => ({ uri: `${baseUrl}/${name}`, sequence })),
+});
+
+const options = (signal = new AbortController().signal) => ({ concurrency: 3, signal, onSegment: () => {} });
+
+describe('downloadSegments', () => {
+  it('downloads every segment in order', async () => {
+    const dir = path.join(tempDir, 'complete');
+
+    const files = await downloadSegments(playlist('a.ts', 'b.ts', 'c.ts', 'd.ts'), dir, options());
+
+    expect(files.map(file => fs.readFileSync(file, 'utf8'))).toEqual(['segment /a.ts', 'segment /b.ts', 'segment /c.ts', 'segment /d.ts']);
+  });
+
+  it('stops the other workers once a segment fails', async () => {
+    const dir = path.join(tempDir, 'failed');
+
+    await expect(downloadSegments(playlist('slow-a.ts', 'missing-b.ts', 'slow-c.ts', 'd.ts', 'e.ts'), dir, options()))
+      .rejects.toThrow(/404/);
+
+    // The slow segments were in flight when the failure hit, none may land
+    // once the caller has moved on to retry or fail over
+    const written = fs.readdirSync(dir);
+    await new Promise(resolve => setTimeout(resolve, 400));
+    expect(fs.readdirSync(dir)).toEqual(written);
+    expect(written).toEqual([]);
+  });
+
+  it('rejects when the caller aborts', async () => {
+    const abortController = new AbortController();
+    setTimeout(() => abortController.abort(), 50);
+
+    await expect(downloadSegments(playlist('slow-a.ts', 'slow-b.ts'), path.join(tempDir, 'aborted'), options(abortController.signal)))
+      .rejects.toThrow();
+  });
+});
+
+describe('remuxToMp4', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('kills ffmpeg and removes its output when aborted', async () => {
+    // An ffmpeg that keeps appending to its output file until it is killed
+    const binDir = path.join(tempDir, 'bin');
+    fs.mkdirSync(binDir);
+    fs.writeFileSync(path.join(binDir, 'ffmpeg'), '#!/bin/sh\nfor last; do :; done\nwhile true; do echo data >> "$last"; sleep 0.05; done\n', { mode: 0o755 });
+    vi.stubEnv('PATH', `${binDir}${path.delimiter}${process.env.PATH}`);
+
+    const segments = ['a', 'b'].map(name => path.join(tempDir, `remux-${name}.ts`));
+    segments.forEach(file => fs.writeFileSync(file, 'segment'));
+    const output = path.join(tempDir, 'remuxed.mp4');
+    const abortController = new AbortController();
+
+    const remuxed = remuxToMp4(segments, output, abortController.signal);
+    await vi.waitFor(() => expect(fs.existsSync(output)).toBe(true));
+    abortController.abort();
+
+    await expect(remuxed).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(fs.existsSync(output)).toBe(false);
+    expect(fs.existsSync(`${output}.joined`)).toBe(false);
+  });
+});
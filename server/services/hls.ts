@@ -0,0 +1,318 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+import { DownloadError } from './retry';
+
+export interface HlsVariant {
+  uri: string;
+  bandwidth: number;
+  resolution?: string;
+}
+
+export interface HlsKey {
+  method: string;
+  uri?: string;
+  iv?: Buffer;
+}
+
+export interface HlsSegment {
+  uri: string;
+  sequence: number;
+  key?: HlsKey;
+}
+
+export interface HlsPlaylist {
+  url: string;
+  // fMP4 streams carry an initialization section that goes before the first segment
+  initUri?: string;
+  segments: HlsSegment[];
+}
+
+const hlsContentTypes = ['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'audio/mpegurl', 'audio/x-mpegurl'];
+
+/**
+ * Check if a URL points to an HLS playlist
+ */
+export function isHlsUrl(url: string): boolean {
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.m3u8');
+  } catch {
+    return url.toLowerCase().includes('.m3u8');
+  }
+}
+
+/**
+ * Check if a Content-Type header announces an HLS playlist
+ */
+export function isHlsContentType(contentType: string | null): boolean {
+  if (!contentType) return false;
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return hlsContentTypes.includes(type);
+}
+
+/**
+ * Parse the attribute list of a tag, e.g. BANDWIDTH=800000,RESOLUTION=640x360
+ */
+function parseAttributes(value: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match;
+
+  while ((match = pattern.exec(value)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+
+  return attributes;
+}
+
+/**
+ * Parse the variant streams listed in a master playlist
+ */
+export function parseMasterPlaylist(text: string, baseUrl: string): HlsVariant[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const variants: HlsVariant[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+
+    const attributes = parseAttributes(lines[i].slice('#EXT-X-STREAM-INF:'.length));
+    const uri = lines.slice(i + 1).find(line => line && !line.startsWith('#'));
+    if (!uri) continue;
+
+    variants.push({
+      uri: new URL(uri, baseUrl).toString(),
+      bandwidth: parseInt(attributes['BANDWIDTH'] || '0', 10),
+      resolution: attributes['RESOLUTION'],
+    });
+  }
+
+  return variants;
+}
+
+/**
+ * Parse the segments of a media playlist
+ */
+export function parseMediaPlaylist(text: string, baseUrl: string): HlsPlaylist {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const segments: HlsSegment[] = [];
+  let sequence = 0;
+  let key: HlsKey | undefined;
+  let initUri: string | undefined;
+
+  for (const line of lines) {
+    if (!line) continue;
+
+    if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+      sequence = parseInt(line.slice('#EXT-X-MEDIA-SEQUENCE:'.length), 10) || 0;
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      const attributes = parseAttributes(line.slice('#EXT-X-KEY:'.length));
+      key = attributes['METHOD'] === 'NONE' ? undefined : {
+        method: attributes['METHOD'],
+        uri: attributes['URI'] ? new URL(attributes['URI'], baseUrl).toString() : undefined,
+        iv: attributes['IV'] ? Buffer.from(attributes['IV'].replace(/^0x/i, '').padStart(32, '0'), 'hex') : undefined,
+      };
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const attributes = parseAttributes(line.slice('#EXT-X-MAP:'.length));
+      if (attributes['URI']) {
+        initUri = new URL(attributes['URI'], baseUrl).toString();
+      }
+    } else if (!line.startsWith('#')) {
+      segments.push({ uri: new URL(line, baseUrl).toString(), sequence: sequence++, key });
+    }
+  }
+
+  return { url: baseUrl, initUri, segments };
+}
+
+/**
+ * Fetch a URL and fail with a DownloadError on a bad status
+ */
+async function fetchOk(url: string, signal: AbortSignal): Promise<Response> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new DownloadError(`Failed to fetch ${url}: ${response.status} ${response.statusText}`, {
+      status: response.status,
+    });
+  }
+  return response;
+}
+
+/**
+ * Load a playlist, following a master playlist to its highest-bandwidth variant
+ */
+export async function loadMediaPlaylist(url: string, signal: AbortSignal): Promise<HlsPlaylist> {
+  const text = await (await fetchOk(url, signal)).text();
+
+  if (!text.trimStart().startsWith('#EXTM3U')) {
+    throw new DownloadError(`Not an HLS playlist: ${url}`);
+  }
+
+  if (text.includes('#EXT-X-STREAM-INF:')) {
+    const variants = parseMasterPlaylist(text, url).sort((a, b) => b.bandwidth - a.bandwidth);
+    if (variants.length === 0) {
+      throw new DownloadError(`No variant streams found in ${url}`);
+    }
+
+    console.log(`[HLS] Picked variant ${variants[0].resolution || 'unknown'} at ${variants[0].bandwidth} bps out of ${variants.length}`);
+    return loadMediaPlaylist(variants[0].uri, signal);
+  }
+
+  const playlist = parseMediaPlaylist(text, url);
+  if (playlist.segments.length === 0) {
+    throw new DownloadError(`No segments found in ${url}`);
+  }
+
+  return playlist;
+}
+
+/**
+ * Download every segment into a directory, decrypting AES-128 segments on the
+ * way. Segments already on disk are skipped, so an interrupted run resumes
+ * where it stopped.
+ */
+export async function downloadSegments(
+  playlist: HlsPlaylist,
+  segmentsDir: string,
+  options: {
+    concurrency: number,
+    signal: AbortSignal,
+    onSegment: (bytes: number, cached: boolean) => void,
+    throttle?: (bytes: number, signal: AbortSignal) => Promise<void>, // waits off each fetched segment under a rate limit
+  },
+): Promise<string[]> {
+  if (!fs.existsSync(segmentsDir)) {
+    fs.mkdirSync(segmentsDir, { recursive: true });
+  }
+
+  // Aborted by the first segment that fails, so the other workers stop
+  // instead of writing into a directory the caller is about to clean up
+  const failed = new AbortController();
+  const signal = AbortSignal.any([options.signal, failed.signal]);
+
+  const keys = new Map<string, Promise<Buffer>>();
+  const getKey = (uri: string) => {
+    if (!keys.has(uri)) {
+      keys.set(uri, fetchOk(uri, signal).then(async res => Buffer.from(await res.arrayBuffer())));
+    }
+    return keys.get(uri)!;
+  };
+
+  const files = playlist.segments.map((_, index) => path.join(segmentsDir, `${String(index).padStart(6, '0')}.ts`));
+  if (playlist.initUri) {
+    files.unshift(path.join(segmentsDir, 'init.mp4'));
+  }
+
+  const jobs = playlist.segments.map((segment, index) => ({ segment, file: files[playlist.initUri ? index + 1 : index] }));
+  if (playlist.initUri) {
+    jobs.unshift({ segment: { uri: playlist.initUri, sequence: -1 }, file: files[0] });
+  }
+
+  let next = 0;
+  const worker = async () => {
+    try {
+      while (next < jobs.length && !signal.aborted) {
+        const { segment, file } = jobs[next++];
+
+        if (fs.existsSync(file)) {
+          options.onSegment(fs.statSync(file).size, true);
+          continue;
+        }
+
+        let data = Buffer.from(await (await fetchOk(segment.uri, signal)).arrayBuffer());
+
+        if (segment.key) {
+          if (segment.key.method !== 'AES-128' || !segment.key.uri) {
+            throw new DownloadError(`Unsupported HLS encryption: ${segment.key.method}`);
+          }
+
+          // Without an explicit IV the media sequence number is used
+          const iv = segment.key.iv || Buffer.alloc(16);
+          if (!segment.key.iv) {
+            iv.writeUInt32BE(segment.sequence, 12);
+          }
+
+          const decipher = crypto.createDecipheriv('aes-128-cbc', await getKey(segment.key.uri), iv);
+          data = Buffer.concat([decipher.update(data), decipher.final()]);
+        }
+
+        // Another worker may have failed while this segment was in flight
+        if (signal.aborted) break;
+
+        // Write to a temporary name first so a half-written segment is never mistaken for a finished one
+        fs.writeFileSync(`${file}.part`, data);
+        fs.renameSync(`${file}.part`, file);
+        options.onSegment(data.length, false);
+        await options.throttle?.(data.length, signal);
+      }
+    } catch (error) {
+      failed.abort(error);
+    }
+  };
+
+  // Workers only stop on their own, so once they all have nothing writes to
+  // the directory any more. The first failure, or the caller's abort, wins.
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, jobs.length) }, worker));
+  signal.throwIfAborted();
+  return files;
+}
+
+/**
+ * Join downloaded segments and remux them into an MP4 container with ffmpeg.
+ * Aborting the signal kills ffmpeg; the promise settles once it has exited,
+ * and a failed remux leaves no output file behind.
+ */
+export async function remuxToMp4(segmentFiles: string[], outputPath: string, signal: AbortSignal): Promise<void> {
+  const joinedPath = `${outputPath}.joined`;
+  const joined = fs.createWriteStream(joinedPath);
+
+  try {
+    try {
+      for (const file of segmentFiles) {
+        signal.throwIfAborted();
+        await new Promise<void>((resolve, reject) => {
+          const input = fs.createReadStream(file);
+          input.on('error', reject);
+          input.on('end', resolve);
+          input.pipe(joined, { end: false });
+        });
+      }
+    } finally {
+      await new Promise<void>((resolve, reject) => joined.end((error?: Error | null) => error ? reject(error) : resolve()));
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const ffmpeg = spawn('ffmpeg', [
+        '-y',
+        '-loglevel', 'error',
+        '-i', joinedPath,
+        '-c', 'copy',
+        '-bsf:a', 'aac_adtstoasc',
+        '-f', 'mp4',
+        outputPath,
+      ], { signal });
+
+      let stderr = '';
+      ffmpeg.stderr.on('data', chunk => stderr += chunk.toString());
+      ffmpeg.on('error', error => {
+        // Killed on abort, settled below once it has exited
+        if (signal.aborted) return;
+        reject(new DownloadError(`ffmpeg is required to remux HLS streams: ${error.message}`));
+      });
+      ffmpeg.on('close', code => {
+        if (signal.aborted) {
+          reject(signal.reason);
+        } else if (code === 0) {
+          resolve();
+        } else {
+          reject(new DownloadError(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+    });
+  } catch (error) {
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  } finally {
+    fs.rmSync(joinedPath, { force: true });
+  }
+}
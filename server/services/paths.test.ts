@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizePathSegment, toSeriesFolderName } from './paths';
+
+describe('sanitizePathSegment', () => {
+  it('keeps ordinary titles as they are', () => {
+    expect(sanitizePathSegment('One Piece')).toBe('One Piece');
+    expect(sanitizePathSegment('Re:Zero')).toBe('Re-Zero');
+    expect(sanitizePathSegment('進撃の巨人')).toBe('進撃の巨人');
+  });
+
+  it('never yields a parent directory or a path', () => {
+    expect(sanitizePathSegment('..')).toBe('');
+    expect(sanitizePathSegment('../../etc/passwd')).toBe('etc-passwd');
+    expect(sanitizePathSegment('/etc/passwd')).toBe('etc-passwd');
+    expect(sanitizePathSegment('..\\..\\Windows')).toBe('Windows');
+    expect(sanitizePathSegment('C:\\Users')).toBe('C--Users');
+  });
+
+  it('drops leading dashes and dots so names are never read as flags or hidden', () => {
+    expect(sanitizePathSegment('--dry-run')).toBe('dry-run');
+    expect(sanitizePathSegment('-rf')).toBe('rf');
+    expect(sanitizePathSegment('.bashrc')).toBe('bashrc');
+    expect(sanitizePathSegment('  -- Show')).toBe('Show');
+  });
+
+  it('replaces control characters', () => {
+    expect(sanitizePathSegment('Show\nName\x00\x1b[31m\x7f')).toBe('Show-Name--[31m-');
+  });
+
+  it('drops trailing dots and spaces', () => {
+    expect(sanitizePathSegment('Show...')).toBe('Show');
+    expect(sanitizePathSegment('Show . . ')).toBe('Show');
+  });
+
+  it('prefixes names reserved by Windows', () => {
+    expect(sanitizePathSegment('CON')).toBe('_CON');
+    expect(sanitizePathSegment('nul')).toBe('_nul');
+    expect(sanitizePathSegment('com1.txt')).toBe('_com1.txt');
+    expect(sanitizePathSegment('LPT9')).toBe('_LPT9');
+    expect(sanitizePathSegment('Console')).toBe('Console');
+  });
+
+  it('cuts overlong names to 200 bytes on a character boundary', () => {
+    expect(sanitizePathSegment('a'.repeat(300))).toBe('a'.repeat(200));
+
+    const japanese = sanitizePathSegment('巨'.repeat(100));
+    expect(Buffer.byteLength(japanese)).toBeLessThanOrEqual(200);
+    expect(japanese).toBe('巨'.repeat(66));
+  });
+
+  it('is empty when nothing usable is left', () => {
+    expect(sanitizePathSegment('')).toBe('');
+    expect(sanitizePathSegment('...')).toBe('');
+    expect(sanitizePathSegment(' - ')).toBe('');
+  });
+});
+
+describe('toSeriesFolderName', () => {
+  it('lowercases titles and joins words with hyphens', () => {
+    expect(toSeriesFolderName('One Piece')).toBe('one-piece');
+  });
+
+  it.each([
+    ['..', 'untitled'],
+    ['../../etc/passwd', 'etc-passwd'],
+    ['/var/lib', 'var-lib'],
+    ['-rf', 'rf'],
+    ['--- Show', 'show'],
+    ['Show\tName\x07', 'show-name-'],
+    ['NUL', '_nul'],
+    ['', 'untitled'],
+  ])('keeps %j to one folder in the downloads directory', (title, expected) => {
+    expect(toSeriesFolderName(title)).toBe(expected);
+  });
+
+  it('cuts overlong titles', () => {
+    expect(toSeriesFolderName('long '.repeat(100))).toHaveLength(200);
+  });
+});
@@ -0,0 +1,46 @@
+// Folder names built from scraped titles, safe on every filesystem rclone
+// or the downloader may write to
+
+// Device names Windows won't create a file or folder under, with any extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+
+// Most filesystems cap a name at 255 bytes, leave room for rclone's suffixes
+const MAX_NAME_BYTES = 200;
+
+/**
+ * Turn a title into a single path segment: no separators, control or
+ * reserved characters, no leading dots or dashes that would read as a
+ * parent directory, hidden file or command line flag, no trailing dots or
+ * spaces, no device names, and at most 200 bytes. Empty when nothing is left.
+ */
+export function sanitizePathSegment(name: string): string {
+  let sanitized = name
+    .replace(/[/\\?%*:|"<>\x00-\x1f\x7f]/g, '-')
+    .replace(/^[.\s-]+/, '')
+    .replace(/[.\s]+$/, '');
+
+  if (RESERVED_NAMES.test(sanitized)) {
+    sanitized = `_${sanitized}`;
+  }
+
+  if (Buffer.byteLength(sanitized) > MAX_NAME_BYTES) {
+    // Cut whole characters so no UTF-8 sequence is split
+    let truncated = '';
+    for (const char of Array.from(sanitized)) {
+      if (Buffer.byteLength(truncated + char) > MAX_NAME_BYTES) break;
+      truncated += char;
+    }
+    sanitized = truncated.replace(/[.\s]+$/, '');
+  }
+
+  return sanitized;
+}
+
+/**
+ * Folder name the downloader saves a series under: the title lowercased with
+ * hyphens for whitespace, as a single safe path segment, "untitled" when
+ * nothing is left
+ */
+export function toSeriesFolderName(title: string): string {
+  return sanitizePathSegment(title.replace(/\s+/g, '-').toLowerCase()) || 'untitled';
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { VideoSource } from '@shared/schema';
+import { getQualityHeight, orderSourcesByQuality } from './quality';
+
+const source = (quality: string | null, host = 'cdn.example.com'): VideoSource => ({
+  url: `https://${host}/${quality ?? 'unknown'}.mp4`,
+  host,
+  quality,
+  container: 'mp4',
+});
+
+const qualities = (sources: VideoSource[]) => sources.map(s => s.quality);
+
+describe('getQualityHeight', () => {
+  it.each([
+    ['1080p', 1080],
+    ['720P', 720],
+    ['FHD', 1080],
+    ['hd', 720],
+    ['SD', 480],
+    ['4K', null],
+    ['', null],
+    [null, null],
+  ])('reads %j as %j', (quality, height) => {
+    expect(getQualityHeight(quality)).toBe(height);
+  });
+});
+
+describe('orderSourcesByQuality', () => {
+  const sources = [source('480p'), source(null), source('1080p'), source('720p')];
+
+  it('keeps the scraper ranking without a preference', () => {
+    expect(orderSourcesByQuality(sources, null)).toBe(sources);
+    expect(orderSourcesByQuality(sources, undefined)).toBe(sources);
+  });
+
+  it('sorts by resolution for highest and lowest', () => {
+    expect(qualities(orderSourcesByQuality(sources, 'highest'))).toEqual(['1080p', '720p', '480p', null]);
+    expect(qualities(orderSourcesByQuality(sources, 'lowest'))).toEqual(['480p', '720p', '1080p', null]);
+  });
+
+  it('puts the closest resolution first and prefers the lower one at the same distance', () => {
+    expect(qualities(orderSourcesByQuality(sources, '720p'))).toEqual(['720p', '480p', '1080p', null]);
+    expect(qualities(orderSourcesByQuality([source('1080p'), source('480p')], '780p'))).toEqual(['480p', '1080p']);
+  });
+
+  it('reads labels as resolutions', () => {
+    expect(qualities(orderSourcesByQuality([source('SD'), source('HD')], '720p'))).toEqual(['HD', 'SD']);
+  });
+
+  it('keeps the scraper ranking between mirrors of the same quality', () => {
+    const mirrors = [source('720p', 'first.example.com'), source('1080p'), source('720p', 'second.example.com')];
+
+    expect(orderSourcesByQuality(mirrors, '720p').map(s => s.host)).toEqual(['first.example.com', 'second.example.com', 'cdn.example.com']);
+  });
+
+  it('does not reorder the sources passed in', () => {
+    orderSourcesByQuality(sources, 'highest');
+    expect(qualities(sources)).toEqual(['480p', null, '1080p', '720p']);
+  });
+});
@@ -0,0 +1,51 @@
+import { VideoSource } from '@shared/schema';
+
+// Vertical resolution assumed for players that only label HD/SD
+const labelHeights: Record<string, number> = {
+  FHD: 1080,
+  HD: 720,
+  SD: 480,
+};
+
+/**
+ * Vertical resolution of a quality hint such as "720p" or "HD", or null
+ * when the source didn't say
+ */
+export function getQualityHeight(quality: string | null): number | null {
+  if (!quality) return null;
+
+  const resolution = quality.match(/^(\d{3,4})p$/i);
+  if (resolution) return parseInt(resolution[1], 10);
+
+  return labelHeights[quality.toUpperCase()] ?? null;
+}
+
+/**
+ * Order sources by a quality preference. "highest" and "lowest" sort by
+ * resolution, a resolution like "720p" puts the closest match first and
+ * prefers lower over higher at the same distance. Sources without a known
+ * quality go last, and the scraper's ranking is kept between equals.
+ * Without a preference the scraper's ranking is returned unchanged.
+ */
+export function orderSourcesByQuality(sources: VideoSource[], preference: string | null | undefined): VideoSource[] {
+  if (!preference) return sources;
+
+  const target = getQualityHeight(preference);
+  const score = (height: number): number => {
+    if (preference === 'highest') return -height;
+    if (preference === 'lowest') return height;
+    if (target === null) return 0;
+    // Distance first, lower resolution wins ties
+    return Math.abs(height - target) * 2 + (height > target ? 1 : 0);
+  };
+
+  return [...sources].sort((a, b) => {
+    const heightA = getQualityHeight(a.quality);
+    const heightB = getQualityHeight(b.quality);
+
+    if (heightA === null || heightB === null) {
+      return (heightA === null ? 1 : 0) - (heightB === null ? 1 : 0);
+    }
+    return score(heightA) - score(heightB);
+  });
+}
@@ -0,0 +1,138 @@
+import { ConfigDiffLine, RcloneRemote, isSecretOption, redactedSecret } from '@shared/schema';
+
+/**
+ * Thrown when an rclone config can't be parsed, fails validation or doesn't
+ * fit a remote change
+ */
+export class RcloneConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RcloneConfigError';
+  }
+}
+
+/**
+ * Parse rclone.conf into its remotes. Comments and blank lines are dropped,
+ * every section must have a type.
+ */
+export function parseRcloneConfig(content: string): RcloneRemote[] {
+  const remotes: RcloneRemote[] = [];
+  let current: RcloneRemote | null = null;
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) return;
+
+    const section = line.match(/^\[(.+)\]$/);
+    if (section) {
+      const name = section[1].trim();
+      if (remotes.some(remote => remote.name === name)) {
+        throw new RcloneConfigError(`Remote "${name}" is defined twice`);
+      }
+      current = { name, type: '', options: {} };
+      remotes.push(current);
+      return;
+    }
+
+    const equals = line.indexOf('=');
+    if (equals < 1) {
+      throw new RcloneConfigError(`Line ${index + 1} is neither a [remote] header nor key = value`);
+    }
+    if (!current) {
+      throw new RcloneConfigError(`Line ${index + 1} comes before the first [remote] header`);
+    }
+
+    const key = line.slice(0, equals).trim();
+    const value = line.slice(equals + 1).trim();
+    if (key === 'type') {
+      current.type = value;
+    } else {
+      current.options[key] = value;
+    }
+  });
+
+  const untyped = remotes.find(remote => !remote.type);
+  if (untyped) {
+    throw new RcloneConfigError(`Remote "${untyped.name}" has no type`);
+  }
+
+  return remotes;
+}
+
+/**
+ * Write remotes back out in rclone.conf format
+ */
+export function serializeRcloneConfig(remotes: RcloneRemote[]): string {
+  return remotes
+    .map(remote => [
+      `[${remote.name}]`,
+      `type = ${remote.type}`,
+      ...Object.entries(remote.options).map(([key, value]) => `${key} = ${value}`),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+/**
+ * A copy of a remote with its credentials replaced by the redacted marker
+ */
+export function redactRemote(remote: RcloneRemote): RcloneRemote {
+  const options = Object.fromEntries(
+    Object.entries(remote.options).map(([key, value]) => [key, isSecretOption(key) && value ? redactedSecret : value])
+  );
+  return { ...remote, options };
+}
+
+/**
+ * Put the stored values back into options a client sent as redacted
+ */
+export function restoreSecrets(remote: RcloneRemote, existing: RcloneRemote | undefined): RcloneRemote {
+  const options = { ...remote.options };
+
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== redactedSecret) continue;
+
+    const stored = existing?.options[key];
+    if (stored === undefined) {
+      throw new RcloneConfigError(`Option "${key}" of remote "${remote.name}" has no stored value to keep`);
+    }
+    options[key] = stored;
+  }
+
+  return { ...remote, options };
+}
+
+/**
+ * Line by line diff turning one config text into another, via the longest
+ * common subsequence. Configs are a few dozen lines, so the table is small.
+ */
+export function diffLines(before: string, after: string): ConfigDiffLine[] {
+  const toLines = (text: string) => (text.trimEnd() ? text.trimEnd().split('\n') : []);
+  const a = toLines(before);
+  const b = toLines(after);
+
+  // common[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const diff: ConfigDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      diff.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || common[i][j + 1] >= common[i + 1][j])) {
+      diff.push({ type: 'added', text: b[j++] });
+    } else {
+      diff.push({ type: 'removed', text: a[i++] });
+    }
+  }
+  return diff;
+}
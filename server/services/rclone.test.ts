@@ -0,0 +1,376 @@
+import { spawn, spawnSync, type SpawnOptions } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Episode, Series, Upload, rcloneUploadSchema } from '@shared/schema';
+import { storage } from '../storage';
+import { eventBus } from './events';
+import { settingsService } from './settings';
+import { InvalidRemoteError, RcloneService, UploadStateError, parseRcloneLogLine, rcloneCopyArgs, rcloneService, renderPathTemplate } from './rclone';
+
+// rclone runs for real, spawn is only wrapped so a test can swap its arguments
+vi.mock('child_process', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('child_process')>();
+  return { ...actual, spawn: vi.fn(actual.spawn) };
+});
+
+// The rclone tests run against its local backend and are skipped without rclone
+const rcloneInstalled = spawnSync('rclone', ['version']).status === 0;
+
+const series = (title: string) => ({ title }) as Series;
+const episode = { season: 2, episodeNumber: 5 } as Episode;
+
+let tempDir: string;
+let destDir: string;
+
+beforeAll(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rclone-test-'));
+  destDir = path.join(tempDir, 'dest');
+  fs.mkdirSync(destDir);
+
+  // "dest:" is a folder of the temp directory on the local disk, "nohash:"
+  // encrypts into it and so reports no hashes
+  let config = `[dest]\ntype = alias\nremote = ${destDir}\n`;
+  if (rcloneInstalled) {
+    const password = spawnSync('rclone', ['obscure', 'test-password'], { encoding: 'utf8' }).stdout.trim();
+    config += `\n[nohash]\ntype = crypt\nremote = dest:encrypted\npassword = ${password}\n`;
+  }
+  fs.writeFileSync(path.join(tempDir, 'rclone.conf'), config);
+  process.env.RCLONE_CONFIG = path.join(tempDir, 'rclone.conf');
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('renderPathTemplate', () => {
+  it('fills in the series, season and episode', () => {
+    expect(renderPathTemplate('/anime/{series}/Season {season}/', series('One Piece'), episode))
+      .toBe('anime/One Piece/Season 2');
+  });
+
+  it.each([
+    ['../../etc', 'anime/etc'],
+    ['..', 'anime/Unknown Series'],
+    ['/etc/passwd', 'anime/etc-passwd'],
+    ['-rf --dry-run', 'anime/rf --dry-run'],
+    ['Show\r\nName\x00', 'anime/Show--Name-'],
+    ['CON', 'anime/_CON'],
+    ['', 'anime/Unknown Series'],
+  ])('keeps the series title %j to one folder', (title, expected) => {
+    expect(renderPathTemplate('anime/{series}', series(title), episode)).toBe(expected);
+  });
+
+  it('cuts overlong series titles', () => {
+    const rendered = renderPathTemplate('{series}/{episode}', series('x'.repeat(1000)), episode);
+    expect(rendered).toBe(`${'x'.repeat(200)}/5`);
+  });
+});
+
+describe('parseRcloneLogLine', () => {
+  const statsLine = (stats: object) =>
+    JSON.stringify({ level: 'notice', msg: 'Transferred: 1 MiB / 4 MiB, 25%', source: 'accounting/stats.go:482', stats, time: '2025-01-01T12:00:00Z' });
+
+  it('reads the transfer stats of periodic stats lines', () => {
+    expect(parseRcloneLogLine(statsLine({ bytes: 1048576, totalBytes: 4194304, speed: 524288.5, eta: 6, transfers: 0 }))).toEqual({
+      progress: { bytes: 1048576, totalBytes: 4194304, speed: 524288.5, eta: 6 },
+    });
+  });
+
+  it('leaves what rclone does not know yet empty', () => {
+    expect(parseRcloneLogLine(statsLine({ bytes: 0, totalBytes: 0, speed: 0, eta: null }))).toEqual({
+      progress: { bytes: 0, totalBytes: null, speed: 0, eta: null },
+    });
+  });
+
+  it('takes the message of error lines', () => {
+    const line = JSON.stringify({ level: 'error', msg: 'Failed to copy: permission denied', time: '2025-01-01T12:00:00Z' });
+    expect(parseRcloneLogLine(line)).toEqual({ error: 'Failed to copy: permission denied' });
+    expect(parseRcloneLogLine(JSON.stringify({ level: 'critical', msg: 'Fatal error' }))).toEqual({ error: 'Fatal error' });
+  });
+
+  it('ignores other log lines', () => {
+    expect(parseRcloneLogLine(JSON.stringify({ level: 'info', msg: 'Copied (new)' }))).toEqual({});
+    expect(parseRcloneLogLine('null')).toEqual({});
+    expect(parseRcloneLogLine('   ')).toEqual({});
+  });
+
+  it('takes lines that are not JSON as errors', () => {
+    expect(parseRcloneLogLine('Usage: rclone copyto source:path dest:path [flags]\n')).toEqual({
+      error: 'Usage: rclone copyto source:path dest:path [flags]',
+    });
+  });
+});
+
+describe('rcloneUploadSchema', () => {
+  it.each(['dest:anime/../../secret', 'dest:..', 'dest:../anime', '../anime'])('rejects %s', (remotePath) => {
+    expect(rcloneUploadSchema.safeParse({ downloadIds: [1], remotePath }).success).toBe(false);
+  });
+
+  it.each(['dest:anime', 'dest:', 'dest:anime/..hidden/Show'])('accepts %s', (remotePath) => {
+    expect(rcloneUploadSchema.safeParse({ downloadIds: [1], remotePath }).success).toBe(true);
+  });
+});
+
+describe('unknown remotes', () => {
+  it('refuses to queue uploads to a remote rclone does not have', async () => {
+    await expect(rcloneService.queueUploads([1], 'nosuch:anime')).rejects.toThrow(InvalidRemoteError);
+  });
+
+  it('refuses destinations without a remote', async () => {
+    await expect(rcloneService.queueUploads([1], '/etc/anime')).rejects.toThrow(InvalidRemoteError);
+  });
+
+  it('refuses to browse or create folders on a remote rclone does not have', async () => {
+    await expect(rcloneService.listDirectory('nosuch', '')).rejects.toThrow(InvalidRemoteError);
+    await expect(rcloneService.makeDirectory('--config=/tmp/x', 'anime')).rejects.toThrow(InvalidRemoteError);
+  });
+});
+
+describe('getRoutes', () => {
+  const destinationIds: number[] = [];
+
+  afterEach(async () => {
+    for (const id of destinationIds.splice(0)) {
+      await storage.deleteUploadDestination(id);
+    }
+  });
+
+  const createDestination = async (name: string, seriesIds: Array<number | null>, enabled = true) => {
+    const destination = await storage.createUploadDestination({ name, remote: name.toLowerCase(), pathTemplate: 'anime/{series}/Season {season}', enabled });
+    destinationIds.push(destination.id);
+    for (const seriesId of seriesIds) {
+      await storage.createUploadRule({ destinationId: destination.id, seriesId });
+    }
+    return destination;
+  };
+
+  it('routes a download to every enabled destination with a rule for its series or for all series', async () => {
+    const show = await storage.createSeries({ title: 'Routed Show', sourceUrl: 'https://www.wcofun.net/anime/routed-show' });
+    const other = await storage.createSeries({ title: 'Other Show', sourceUrl: 'https://www.wcofun.net/anime/other-show' });
+    const episode = await storage.createEpisode({ seriesId: show.id, title: 'Episode 3', episodeNumber: 3, season: 2, sourceUrl: 'https://www.wcofun.net/routed-show-episode-3' });
+    const download = await storage.createDownload({ episodeId: episode.id });
+
+    const drive = await createDestination('Drive', [show.id]);
+    const archive = await createDestination('Archive', [null]);
+    await createDestination('Elsewhere', [other.id]);
+    await createDestination('Disabled', [show.id], false);
+
+    expect(await rcloneService.getRoutes(download)).toEqual([
+      { destination: 'drive:anime/Routed Show/Season 2', destinationId: drive.id },
+      { destination: 'archive:anime/Routed Show/Season 2', destinationId: archive.id },
+    ]);
+  });
+
+  it('routes nowhere without rules', async () => {
+    await createDestination('Unused', []);
+    const download = await storage.createDownload({ episodeId: 1 });
+
+    expect(await rcloneService.getRoutes(download)).toEqual([]);
+  });
+});
+
+describe('upload retry and cancel', () => {
+  beforeEach(() => {
+    // Only the recorded state is checked, nothing runs rclone
+    vi.spyOn(rcloneService, 'processUploads').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createUpload = async (status: string, downloadStatus = 'completed') => {
+    const download = await storage.createDownload({ episodeId: 1, filePath: path.join(tempDir, 'episode.mp4') });
+    await storage.updateDownload(download.id, { status: downloadStatus });
+    const upload = await storage.createUpload({ downloadId: download.id, remote: 'dest:', path: 'anime/episode.mp4', status });
+    return (await storage.updateUpload(upload.id, { bytes: 1000, error: status === 'error' ? 'Rclone error: quota exceeded' : null }))!;
+  };
+
+  it.each(['error', 'cancelled'])('queues a %s upload again', async (status) => {
+    const upload = await createUpload(status);
+
+    const queued = await rcloneService.retryUpload(upload.id);
+
+    expect(queued).toMatchObject({ status: 'queued', bytes: 0, error: null, completedAt: null });
+    expect(rcloneService.processUploads).toHaveBeenCalled();
+  });
+
+  it.each(['queued', 'uploading', 'uploaded'])('refuses to retry a %s upload', async (status) => {
+    const upload = await createUpload(status);
+
+    await expect(rcloneService.retryUpload(upload.id)).rejects.toThrow(UploadStateError);
+    expect((await storage.getUpload(upload.id))?.status).toBe(status);
+  });
+
+  it('cancels a queued upload and settles its download', async () => {
+    const upload = await createUpload('queued', 'uploading');
+
+    expect(await rcloneService.cancelUpload(upload.id)).toMatchObject({ status: 'cancelled' });
+    expect((await storage.getDownload(upload.downloadId))?.status).toBe('completed');
+  });
+
+  it.each(['uploaded', 'error', 'cancelled'])('refuses to cancel a %s upload', async (status) => {
+    const upload = await createUpload(status);
+
+    await expect(rcloneService.cancelUpload(upload.id)).rejects.toThrow(UploadStateError);
+  });
+
+  it('knows no unknown uploads', async () => {
+    expect(await rcloneService.retryUpload(999_999)).toBeUndefined();
+    expect(await rcloneService.cancelUpload(999_999)).toBeUndefined();
+  });
+});
+
+describe('rcloneCopyArgs', () => {
+  it('ends the flags before the file paths, whatever they are called', () => {
+    expect(rcloneCopyArgs('/downloads/-rf/--dry-run.mp4', 'dest:--delete/--dry-run.mp4', '')).toEqual([
+      'copyto', '--use-json-log', '--stats', '1s', '--stats-log-level', 'NOTICE',
+      '--', '/downloads/-rf/--dry-run.mp4', 'dest:--delete/--dry-run.mp4',
+    ]);
+  });
+
+  it('passes the bandwidth limit before the file paths', () => {
+    const args = rcloneCopyArgs('/downloads/episode.mp4', 'dest:anime/episode.mp4', '08:00,512k 19:00,off');
+
+    expect(args.slice(args.indexOf('--bwlimit'), args.indexOf('--bwlimit') + 2)).toEqual(['--bwlimit', '08:00,512k 19:00,off']);
+    expect(args.slice(-3)).toEqual(['--', '/downloads/episode.mp4', 'dest:anime/episode.mp4']);
+  });
+});
+
+describe.skipIf(!rcloneInstalled)('uploads', () => {
+  beforeAll(async () => {
+    await settingsService.update({ autoDeleteAfterUpload: true });
+  });
+
+  afterAll(async () => {
+    await settingsService.update({ autoDeleteAfterUpload: false });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Record a completed download of a local file holding the given content
+   */
+  const createDownload = async (name: string, content: string) => {
+    const filePath = path.join(tempDir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    const download = await storage.createDownload({ episodeId: 1, filePath });
+    return (await storage.updateDownload(download.id, { status: 'completed' }))!;
+  };
+
+  /**
+   * Upload a download to a destination and wait until it has finished
+   */
+  const upload = async (downloadId: number, destination: string): Promise<Upload> => {
+    const finished = new Promise<number>(resolve => {
+      const unsubscribe = eventBus.subscribe(event => {
+        if ((event.type === 'upload:completed' || event.type === 'upload:error') && event.downloadId === downloadId) {
+          unsubscribe();
+          resolve(event.uploadId);
+        }
+      });
+    });
+
+    await rcloneService.queueUploads([downloadId], destination);
+    return (await storage.getUpload(await finished))!;
+  };
+
+  it('copies files whose names look like flags', async () => {
+    const download = await createDownload(path.join('-rf', '--dry-run.mp4'), 'episode');
+
+    const result = await upload(download.id, 'dest:--delete');
+
+    expect(result.status).toBe('uploaded');
+    expect(fs.readFileSync(path.join(destDir, '--delete', '--dry-run.mp4'), 'utf8')).toBe('episode');
+    expect(vi.mocked(spawn)).toHaveBeenCalledWith('rclone', expect.arrayContaining(['--', download.filePath, 'dest:--delete/--dry-run.mp4']), expect.anything());
+  });
+
+  it('removes the local file once the hashes match', async () => {
+    const download = await createDownload('match.mp4', 'episode');
+
+    const result = await upload(download.id, 'dest:verified');
+
+    expect(result).toMatchObject({ status: 'uploaded', verified: true, localRemoved: true });
+    expect(fs.readFileSync(path.join(destDir, 'verified', 'match.mp4'), 'utf8')).toBe('episode');
+    expect(fs.existsSync(download.filePath!)).toBe(false);
+    expect((await storage.getDownload(download.id))?.status).toBe('uploaded');
+  });
+
+  it.each([
+    ['size', 'episode, but longer', /remote size \d+ does not match local size 7/],
+    ['hash', 'EPISODE', /of dest:tampered\/\w+\.mp4 does not match the local file/],
+  ])('keeps the local file when the %s does not match', async (kind, remoteContent, error) => {
+    const download = await createDownload(`${kind}.mp4`, 'episode');
+
+    // rclone uploads other content than the local file holds
+    const tampered = path.join(tempDir, `${kind}-tampered.mp4`);
+    fs.writeFileSync(tampered, remoteContent);
+    const { spawn: realSpawn } = await vi.importActual<typeof import('child_process')>('child_process');
+    vi.mocked(spawn).mockImplementationOnce(((command: string, args: string[], options: SpawnOptions) =>
+      realSpawn(command, args.map(arg => arg === download.filePath ? tampered : arg), options)) as typeof spawn);
+
+    const result = await upload(download.id, 'dest:tampered');
+
+    expect(fs.readFileSync(path.join(destDir, 'tampered', `${kind}.mp4`), 'utf8')).toBe(remoteContent);
+    expect(result).toMatchObject({ status: 'error', verified: false, localRemoved: false });
+    expect(result.error).toMatch(error);
+    expect(fs.readFileSync(download.filePath!, 'utf8')).toBe('episode');
+    expect(await storage.getDownload(download.id)).toMatchObject({ status: 'completed', error: result.error });
+  });
+
+  it('falls back to the size on remotes without hashes', async () => {
+    const download = await createDownload('nohash.mp4', 'episode');
+
+    const result = await upload(download.id, 'nohash:shows');
+
+    expect(result).toMatchObject({ status: 'uploaded', verified: true, localRemoved: true });
+    expect(fs.existsSync(download.filePath!)).toBe(false);
+  });
+});
+
+describe.skipIf(!rcloneInstalled)('config backups', () => {
+  let service: RcloneService;
+  let configDir: string;
+
+  beforeAll(async () => {
+    // A service of its own, keeping its rclone.conf in the temp directory
+    vi.stubEnv('HOME', path.join(tempDir, 'home'));
+    service = new RcloneService();
+    vi.unstubAllEnvs();
+    configDir = path.join(tempDir, 'home', '.config', 'rclone');
+
+    await settingsService.update({ rcloneConfigBackups: 2 });
+  });
+
+  afterAll(async () => {
+    await settingsService.update({ rcloneConfigBackups: 10 });
+  });
+
+  const config = (name: string) => `[${name}]\ntype = alias\nremote = ${destDir}\n`;
+
+  it('keeps the configured number of backups, newest first', async () => {
+    for (const name of ['first', 'second', 'third', 'fourth']) {
+      await service.uploadConfig(config(name));
+    }
+
+    const backups = await service.getConfigBackups();
+    expect(backups.map(backup => backup.remotes)).toEqual([['third'], ['second']]);
+    expect(fs.readdirSync(configDir).filter(file => file.includes('.backup-'))).toHaveLength(2);
+    expect(backups[0].diff).toContainEqual({ type: 'added', text: '[third]' });
+    expect(backups[0].diff).toContainEqual({ type: 'removed', text: '[fourth]' });
+  });
+
+  it('restores a backup and backs up the config it replaces', async () => {
+    const [, oldest] = await service.getConfigBackups();
+
+    expect(await service.restoreConfigBackup(oldest.id)).toEqual([{ name: 'second', type: 'alias', options: { remote: destDir } }]);
+    expect((await service.getConfigRemotes()).map(remote => remote.name)).toEqual(['second']);
+    expect((await service.getConfigBackups()).map(backup => backup.remotes)).toEqual([['fourth'], ['third']]);
+    expect(await service.restoreConfigBackup('123')).toBeUndefined();
+  });
+});
@@ -1,14 +1,159 @@
-import { exec } from 'child_process';
+import { execFile, spawn } from 'child_process';
 import { promisify } from 'util';
+import { createHash } from 'crypto';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
+import readline from 'readline';
 import { storage } from '../storage';
+import { eventBus } from './events';
+import { settingsService } from './settings';
+import { isWithinWindow, msUntil } from './schedule';
+import { sanitizePathSegment } from './paths';
+import { Download, Episode, RcloneConfigBackup, RcloneRemote, RemoteEntry, Series, Upload, UploadProgress } from '@shared/schema';
+import { diffLines, parseRcloneConfig, redactRemote, restoreSecrets, serializeRcloneConfig, RcloneConfigError } from './rclone-config';
 
-const execAsync = promisify(exec);
+// rclone is always run with an argument array, never through a shell, so
+// remote paths from requests and file names from scraped titles stay inert
+const execFileAsync = promisify(execFile);
+
+/**
+ * Thrown when an upload can't be retried or cancelled in its current status
+ */
+export class UploadStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadStateError';
+  }
+}
+
+/**
+ * Thrown when an upload destination doesn't name a configured rclone remote
+ */
+export class InvalidRemoteError extends Error {
+  constructor(remote: string) {
+    super(remote
+      ? `Unknown rclone remote "${remote}"`
+      : 'Upload destination must start with a remote name, e.g. "gdrive:"');
+    this.name = 'InvalidRemoteError';
+  }
+}
+
+// Download statuses an upload can start from: other destinations of the
+// same download may already be running or done
+const UPLOADABLE_STATUSES = ['completed', 'uploading', 'uploaded'];
+
+// Hashes Node can compute, in order of preference, for checking uploads
+const VERIFY_HASH_TYPES = ['sha256', 'sha1', 'md5'];
+
+/**
+ * Hash a file the way rclone reports it, as lowercase hex
+ */
+function hashFile(filePath: string, algorithm: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash(algorithm);
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * "gdrive" or "gdrive:" as the remote name rclone lists, "gdrive:"
+ */
+function toRemoteName(remote: string): string {
+  return remote.endsWith(':') ? remote : `${remote}:`;
+}
+
+/**
+ * Drop leading and trailing slashes, rclone paths are relative to the remote
+ */
+function trimSlashes(value: string): string {
+  return value.replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Fill a destination's path template in for an episode, e.g.
+ * "anime/{series}/Season {season}" → "anime/One Piece/Season 1"
+ */
+export function renderPathTemplate(template: string, series?: Series, episode?: Episode): string {
+  const seriesName = sanitizePathSegment(series?.title || '');
+
+  return trimSlashes(template
+    .replace(/\{series\}/g, seriesName || 'Unknown Series')
+    .replace(/\{season\}/g, String(episode?.season ?? 1))
+    .replace(/\{episode\}/g, String(episode?.episodeNumber ?? 0)));
+}
+
+/**
+ * Split a destination like "gdrive:anime/shows" into the remote ("gdrive:")
+ * and the directory on it ("anime/shows")
+ */
+function splitDestination(destination: string): { remote: string; directory: string } {
+  const colon = destination.indexOf(':');
+  return {
+    remote: destination.slice(0, colon + 1),
+    directory: trimSlashes(destination.slice(colon + 1)),
+  };
+}
+
+/**
+ * Arguments for rclone to copy one file to a remote file path, logging its
+ * transfer stats every second as JSON, under a --bwlimit value if one is set
+ */
+export function rcloneCopyArgs(localFilePath: string, remoteFilePath: string, bandwidth: string): string[] {
+  const args = ['copyto', '--use-json-log', '--stats', '1s', '--stats-log-level', 'NOTICE'];
+  if (bandwidth) {
+    args.push('--bwlimit', bandwidth);
+  }
+  // Nothing after "--" is read as a flag, whatever the file is called
+  args.push('--', localFilePath, remoteFilePath);
+  return args;
+}
+
+/**
+ * Read a line of rclone's --use-json-log output. Every line is a JSON
+ * object and the periodic ones carry a stats object; anything else on
+ * stderr is taken as an error message.
+ */
+export function parseRcloneLogLine(line: string): { progress?: UploadProgress; error?: string } {
+  let entry: any;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return line.trim() ? { error: line.trim() } : {};
+  }
+
+  if (entry?.stats) {
+    return {
+      progress: {
+        bytes: entry.stats.bytes || 0,
+        totalBytes: entry.stats.totalBytes || null,
+        speed: entry.stats.speed || 0,
+        eta: typeof entry.stats.eta === 'number' ? entry.stats.eta : null,
+      },
+    };
+  }
+  if (entry?.level === 'error' || entry?.level === 'critical') {
+    return { error: entry.msg };
+  }
+  return {};
+}
 
 export class RcloneService {
   private rcloneConfigPath: string;
 
+  // Upload queue state, uploads run one at a time
+  private processingUploads = false;
+  private uploadQueueDirty = false;
+
+  // Running uploads, keyed by upload ID, aborted to cancel them
+  private activeUploads = new Map<number, AbortController>();
+
+  // Restarts the queue when the upload hold window ends
+  private holdTimer: NodeJS.Timeout | null = null;
+
   constructor() {
     const homeDir = process.env.HOME || process.env.USERPROFILE || '';
     this.rcloneConfigPath = path.join(homeDir, '.config', 'rclone', 'rclone.conf');
@@ -18,6 +163,19 @@ export class RcloneService {
     if (!fs.existsSync(configDir)) {
       fs.mkdirSync(configDir, { recursive: true });
     }
+
+    eventBus.subscribe(event => {
+      if (event.type === 'download:completed') {
+        this.handleCompletedDownload(event.download);
+      }
+    });
+
+    settingsService.subscribe((settings, previous) => {
+      if (settings.uploadHoldStart !== previous.uploadHoldStart || settings.uploadHoldEnd !== previous.uploadHoldEnd) {
+        this.clearHoldTimer();
+        this.processUploads();
+      }
+    });
   }
 
   /**
@@ -25,7 +183,7 @@ export class RcloneService {
    */
   async isRcloneAvailable(): Promise<boolean> {
     try {
-      const { stdout } = await execAsync('rclone version');
+      const { stdout } = await execFileAsync('rclone', ['version']);
       return stdout.includes('rclone');
     } catch (error) {
       console.error('Error checking rclone availability:', error);
@@ -38,7 +196,7 @@ export class RcloneService {
    */
   async getRemotes(): Promise<string[]> {
     try {
-      const { stdout } = await execAsync('rclone listremotes');
+      const { stdout } = await execFileAsync('rclone', ['listremotes']);
       return stdout.split('\n')
         .map(line => line.trim())
         .filter(line => line.length > 0);
@@ -49,12 +207,325 @@ export class RcloneService {
   }
 
   /**
-   * Upload a file to a remote destination
+   * Normalize a remote name to "name:" and make sure rclone has it configured
    */
-  async uploadFile(downloadId: number, remotePath: string): Promise<boolean> {
+  async resolveRemote(remote: string): Promise<string> {
+    const remoteName = toRemoteName(remote);
+    await this.assertKnownRemote(remoteName);
+    return remoteName;
+  }
+
+  /**
+   * Make sure a remote like "gdrive:" is one rclone has configured
+   */
+  private async assertKnownRemote(remote: string): Promise<void> {
+    const remotes = await this.getRemotes();
+    if (!remote || !remotes.includes(remote)) {
+      throw new InvalidRemoteError(remote);
+    }
+  }
+
+  /**
+   * List a directory on a remote, folders first
+   */
+  async listDirectory(remote: string, directory: string): Promise<RemoteEntry[]> {
+    const remoteName = await this.resolveRemote(remote);
+
+    const { stdout } = await execFileAsync('rclone', ['lsjson', '--', `${remoteName}${trimSlashes(directory)}`], {
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    const items = JSON.parse(stdout) as Array<{ Path: string; Name: string; Size: number; IsDir: boolean; ModTime: string }>;
+
+    const prefix = trimSlashes(directory);
+    return items
+      .map(item => ({
+        name: item.Name,
+        path: prefix ? `${prefix}/${item.Path}` : item.Path,
+        size: item.Size,
+        isDir: item.IsDir,
+        modTime: item.ModTime,
+      }))
+      .sort((a, b) => Number(b.isDir) - Number(a.isDir) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Create a directory, and any missing parents, on a remote
+   */
+  async makeDirectory(remote: string, directory: string): Promise<string> {
+    const remoteName = await this.resolveRemote(remote);
+
+    const target = `${remoteName}${trimSlashes(directory)}`;
+    await execFileAsync('rclone', ['mkdir', '--', target]);
+    console.log(`[Rclone] Created directory ${target}`);
+    return trimSlashes(directory);
+  }
+
+  /**
+   * Default upload destination from the settings, e.g. "gdrive:anime",
+   * or null when no default remote is set
+   */
+  getDefaultDestination(): string | null {
+    const { defaultRemote, remotePath } = settingsService.get();
+    if (!defaultRemote) return null;
+
+    return `${toRemoteName(defaultRemote)}${trimSlashes(remotePath)}`;
+  }
+
+  /**
+   * Whether a download should be uploaded as soon as it completes. The
+   * series' own setting wins over the auto-upload setting when it has one.
+   */
+  async shouldAutoUpload(download: Download): Promise<boolean> {
+    const episode = await storage.getEpisode(download.episodeId);
+    const series = episode ? await storage.getSeries(episode.seriesId) : undefined;
+    return series?.autoUpload ?? settingsService.get().autoUpload;
+  }
+
+  /**
+   * The enabled upload destinations a download is routed to: every one with
+   * a rule for its series or a rule for all series
+   */
+  async getRoutes(download: Download): Promise<Array<{ destination: string; destinationId: number }>> {
+    const episode = await storage.getEpisode(download.episodeId);
+    const series = episode ? await storage.getSeries(episode.seriesId) : undefined;
+
+    const rules = (await storage.getAllUploadRules())
+      .filter(rule => rule.seriesId === null || rule.seriesId === series?.id);
+    const destinations = (await storage.getAllUploadDestinations())
+      .filter(destination => destination.enabled && rules.some(rule => rule.destinationId === destination.id));
+
+    return destinations.map(destination => {
+      const directory = renderPathTemplate(destination.pathTemplate, series, episode);
+      return {
+        destination: `${toRemoteName(destination.remote)}${directory}`,
+        destinationId: destination.id,
+      };
+    });
+  }
+
+  /**
+   * Queue a just completed download for upload to every destination routed
+   * to it, or to the default destination when none is
+   */
+  private async handleCompletedDownload(download: Download): Promise<void> {
     try {
+      if (!(await this.shouldAutoUpload(download))) return;
+
+      const routes: Array<{ destination: string; destinationId: number | null }> = await this.getRoutes(download);
+      if (routes.length === 0) {
+        const destination = this.getDefaultDestination();
+        if (destination) {
+          routes.push({ destination, destinationId: null });
+        }
+      }
+
+      if (routes.length === 0) {
+        console.log(`[Rclone] Auto-upload is on but no destination or default remote is set, download ${download.id} stays local`);
+        return;
+      }
+
+      for (const { destination, destinationId } of routes) {
+        const [upload] = await this.queueUploads([download.id], destination, destinationId);
+        console.log(`[Rclone] Queued download ${download.id} for automatic upload to ${destination} (upload ${upload.id})`);
+      }
+    } catch (error) {
+      console.error(`Error queueing automatic upload for download ${download.id}:`, error);
+    }
+  }
+
+  /**
+   * Uploads cut short by a restart go back into the queue, their downloads
+   * back to completed until the upload runs again
+   */
+  async recoverUploads(): Promise<void> {
+    const interrupted = await storage.getUploadsByStatus('uploading');
+    for (const upload of interrupted) {
+      await storage.updateUpload(upload.id, { status: 'queued', bytes: 0 });
+      console.log(`[Rclone] Upload ${upload.id} was interrupted, re-queued`);
+    }
+
+    const uploading = await storage.getDownloadsByStatus('uploading');
+    for (const download of uploading) {
+      await this.updateStatus(download.id, { status: 'completed' });
+    }
+
+    this.processUploads();
+  }
+
+  /**
+   * Update a download's upload status and publish it on the event bus
+   */
+  private async updateStatus(downloadId: number, data: Partial<Download>): Promise<Download | undefined> {
+    const download = await storage.updateDownload(downloadId, data);
+    if (download) {
+      eventBus.emit({ type: 'download:status', download });
+    }
+    return download;
+  }
+
+  /**
+   * Record an upload per download to a destination like "gdrive:anime" and
+   * let the queue pick them up. Uploads run one at a time, oldest first.
+   */
+  async queueUploads(downloadIds: number[], destination: string, destinationId: number | null = null): Promise<Upload[]> {
+    const { remote, directory } = splitDestination(destination);
+    await this.assertKnownRemote(remote);
+
+    const queued: Upload[] = [];
+
+    for (const downloadId of downloadIds) {
       const download = await storage.getDownload(downloadId);
-      if (!download || download.status !== 'completed' || !download.filePath) {
+      const fileName = download?.filePath ? path.basename(download.filePath) : `download-${downloadId}`;
+
+      const upload = await storage.createUpload({
+        downloadId,
+        destinationId,
+        remote,
+        path: directory ? `${directory}/${fileName}` : fileName,
+        status: 'queued',
+      });
+      eventBus.emit({ type: 'upload:status', uploadId: upload.id, downloadId, status: 'queued' });
+      queued.push(upload);
+    }
+
+    this.processUploads();
+    return queued;
+  }
+
+  /**
+   * Run queued uploads one after another until none are left
+   */
+  async processUploads(): Promise<void> {
+    // Only one pass at a time; uploads queued mid-pass trigger another one
+    if (this.processingUploads) {
+      this.uploadQueueDirty = true;
+      return;
+    }
+
+    this.processingUploads = true;
+    try {
+      do {
+        this.uploadQueueDirty = false;
+        let next: Upload | undefined;
+        while ((next = (await storage.getUploadsByStatus('queued'))[0])) {
+          if (this.getUploadHoldEnd()) {
+            this.holdUploads();
+            break;
+          }
+          await this.runUpload(next);
+        }
+      } while (this.uploadQueueDirty);
+    } catch (error) {
+      console.error('Error processing upload queue:', error);
+    } finally {
+      this.processingUploads = false;
+    }
+  }
+
+  /**
+   * When queued uploads are being held by the upload hold window, the
+   * "HH:MM" the hold ends, null otherwise
+   */
+  getUploadHoldEnd(): string | null {
+    const { uploadHoldStart, uploadHoldEnd } = settingsService.get();
+    return isWithinWindow(uploadHoldStart, uploadHoldEnd) ? uploadHoldEnd : null;
+  }
+
+  /**
+   * Leave the queue alone until the hold window ends, running uploads finish
+   */
+  private holdUploads(): void {
+    if (this.holdTimer) return;
+
+    const holdEnd = this.getUploadHoldEnd();
+    if (!holdEnd) return;
+
+    console.log(`[Rclone] Holding queued uploads until ${holdEnd}`);
+    this.holdTimer = setTimeout(() => {
+      this.holdTimer = null;
+      this.processUploads();
+    }, msUntil(holdEnd));
+  }
+
+  private clearHoldTimer(): void {
+    if (this.holdTimer) {
+      clearTimeout(this.holdTimer);
+      this.holdTimer = null;
+    }
+  }
+
+  /**
+   * Put a failed or cancelled upload back into the queue
+   */
+  async retryUpload(uploadId: number): Promise<Upload | undefined> {
+    const upload = await storage.getUpload(uploadId);
+    if (!upload) return undefined;
+
+    if (upload.status !== 'error' && upload.status !== 'cancelled') {
+      throw new UploadStateError(`Upload ${uploadId} is ${upload.status}, only failed or cancelled uploads can be retried`);
+    }
+
+    const queued = await storage.updateUpload(uploadId, {
+      status: 'queued',
+      bytes: 0,
+      error: null,
+      completedAt: null,
+    });
+    eventBus.emit({ type: 'upload:status', uploadId, downloadId: upload.downloadId, status: 'queued' });
+
+    this.processUploads();
+    return queued;
+  }
+
+  /**
+   * Cancel a queued upload, or stop the rclone process of a running one
+   */
+  async cancelUpload(uploadId: number): Promise<Upload | undefined> {
+    const upload = await storage.getUpload(uploadId);
+    if (!upload) return undefined;
+
+    if (upload.status === 'uploading') {
+      // runUpload records the cancellation once rclone has exited
+      this.activeUploads.get(uploadId)?.abort();
+      return upload;
+    }
+
+    if (upload.status !== 'queued') {
+      throw new UploadStateError(`Upload ${uploadId} is ${upload.status}, only queued or running uploads can be cancelled`);
+    }
+
+    const cancelled = await storage.updateUpload(uploadId, { status: 'cancelled', completedAt: new Date() });
+    eventBus.emit({ type: 'upload:status', uploadId, downloadId: upload.downloadId, status: 'cancelled' });
+
+    const download = await storage.getDownload(upload.downloadId);
+    if (download?.status === 'uploading') {
+      await this.settleDownloadStatus(upload.downloadId);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Copy an upload's file to its remote, recording the outcome on the upload
+   */
+  private async runUpload(upload: Upload): Promise<boolean> {
+    const { id: uploadId, downloadId } = upload;
+    const remoteFilePath = `${upload.remote}${upload.path}`;
+    const abortController = new AbortController();
+    this.activeUploads.set(uploadId, abortController);
+
+    let started = false;
+    try {
+      await storage.updateUpload(uploadId, {
+        status: 'uploading',
+        attempts: (upload.attempts || 0) + 1,
+        bytes: 0,
+        error: null,
+        verified: null,
+        startedAt: new Date(),
+      });
+
+      const download = await storage.getDownload(downloadId);
+      if (!download || !UPLOADABLE_STATUSES.includes(download.status) || !download.filePath) {
         throw new Error(`Download ${downloadId} is not available for upload`);
       }
 
@@ -63,102 +534,364 @@ export class RcloneService {
         throw new Error(`File not found: ${download.filePath}`);
       }
 
-      // Get local directory and filename
-      const localFilePath = download.filePath;
-      const fileName = path.basename(localFilePath);
+      await this.updateStatus(downloadId, { status: 'uploading', error: null });
+      started = true;
+      eventBus.emit({ type: 'upload:status', uploadId, downloadId, status: 'uploading' });
 
-      // Build remote path
-      const fullRemotePath = `${remotePath}/${fileName}`;
+      await this.copyFile(download.filePath, remoteFilePath, abortController.signal, progress => {
+        storage.updateUpload(uploadId, { bytes: progress.bytes, totalBytes: progress.totalBytes })
+          .catch(error => console.error(`Error saving progress of upload ${uploadId}:`, error));
+        eventBus.emit({ type: 'upload:progress', uploadId, downloadId, ...progress });
+      });
 
-      // Execute rclone command to copy the file
-      const { stdout, stderr } = await execAsync(`rclone copy "${localFilePath}" "${fullRemotePath}" --progress`);
+      try {
+        await this.verifyUpload(download.filePath, remoteFilePath);
+      } catch (error) {
+        await storage.updateUpload(uploadId, { verified: false });
+        throw error;
+      }
 
-      if (stderr && !stderr.includes('Transferred:')) {
-        throw new Error(`Rclone error: ${stderr}`);
+      await storage.updateUpload(uploadId, {
+        status: 'uploaded',
+        verified: true,
+        completedAt: new Date(),
+      });
+
+      // Only verified copies let the local file go, and only once every
+      // destination has one
+      if (settingsService.get().autoDeleteAfterUpload
+        && await this.isFullyUploaded(downloadId)
+        && await this.removeLocalFile(download.filePath)) {
+        await storage.updateUpload(uploadId, { localRemoved: true });
       }
 
-      // Update download status
-      await storage.updateDownload(downloadId, {
-        status: 'uploaded'
+      await this.settleDownloadStatus(downloadId);
+      eventBus.emit({ type: 'upload:completed', uploadId, downloadId, remotePath: remoteFilePath });
+
+      return true;
+    } catch (error: any) {
+      const cancelled = abortController.signal.aborted;
+      const message = cancelled ? 'Cancelled' : error.message || String(error);
+
+      if (cancelled) {
+        console.log(`[Rclone] Upload ${uploadId} of download ${downloadId} cancelled`);
+      } else {
+        console.error(`Error uploading file for download ${downloadId}:`, error);
+      }
+
+      await storage.updateUpload(uploadId, {
+        status: cancelled ? 'cancelled' : 'error',
+        error: cancelled ? null : message,
+        completedAt: new Date(),
       });
+      if (started) {
+        // The file is still here, leave it ready for another upload
+        await this.settleDownloadStatus(downloadId, cancelled ? null : message);
+      }
+
+      if (cancelled) {
+        eventBus.emit({ type: 'upload:status', uploadId, downloadId, status: 'cancelled' });
+      } else {
+        eventBus.emit({ type: 'upload:error', uploadId, downloadId, error: message });
+      }
+      return false;
+    } finally {
+      this.activeUploads.delete(uploadId);
+    }
+  }
+
+  /**
+   * Whether every upload of a download has finished, leaving out cancelled
+   * ones, so nothing still needs the local file
+   */
+  private async isFullyUploaded(downloadId: number): Promise<boolean> {
+    const uploads = await storage.getUploadsByDownloadId(downloadId);
+    return uploads.every(upload => upload.status === 'uploaded' || upload.status === 'cancelled');
+  }
+
+  /**
+   * Set a download's status from its uploads once none is queued or running:
+   * uploaded when any destination has it, completed otherwise
+   */
+  private async settleDownloadStatus(downloadId: number, error: string | null = null): Promise<void> {
+    const uploads = await storage.getUploadsByDownloadId(downloadId);
+    if (uploads.some(upload => upload.status === 'queued' || upload.status === 'uploading')) return;
+
+    const uploaded = uploads.some(upload => upload.status === 'uploaded');
+    await this.updateStatus(downloadId, { status: uploaded ? 'uploaded' : 'completed', error });
+  }
+
+  /**
+   * Check an uploaded file against its local original: the sizes must match,
+   * and so must a hash both sides support. Remotes without md5, sha1 or
+   * sha256 are checked by size alone.
+   */
+  private async verifyUpload(localFilePath: string, remoteFilePath: string): Promise<void> {
+    const { stdout } = await execFileAsync('rclone', ['lsjson', '--hash', '--files-only', '--', remoteFilePath], {
+      maxBuffer: 1024 * 1024,
+    });
+    const [remoteFile] = JSON.parse(stdout) as Array<{ Size: number; Hashes?: Record<string, string> }>;
+    if (!remoteFile) {
+      throw new Error(`Verification failed: ${remoteFilePath} not found on the remote`);
+    }
+
+    const localSize = (await fs.promises.stat(localFilePath)).size;
+    if (remoteFile.Size !== localSize) {
+      throw new Error(`Verification failed: remote size ${remoteFile.Size} does not match local size ${localSize}`);
+    }
+
+    // Older rclone names hashes "MD5" and "SHA-1", newer "md5" and "sha1"
+    const remoteHashes = new Map(Object.entries(remoteFile.Hashes || {})
+      .map(([type, hash]) => [type.toLowerCase().replace(/-/g, ''), hash.toLowerCase()]));
 
+    const hashType = VERIFY_HASH_TYPES.find(type => remoteHashes.get(type));
+    if (!hashType) {
+      console.log(`[Rclone] No common hash for ${remoteFilePath}, verified by size only`);
+      return;
+    }
+
+    const localHash = await hashFile(localFilePath, hashType);
+    if (localHash !== remoteHashes.get(hashType)) {
+      throw new Error(`Verification failed: ${hashType} of ${remoteFilePath} does not match the local file`);
+    }
+  }
+
+  /**
+   * Delete a local file after it was uploaded, true when it is gone
+   */
+  private async removeLocalFile(filePath: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(filePath);
+      console.log(`[Rclone] Removed local file ${filePath} after verified upload`);
       return true;
     } catch (error) {
-      console.error(`Error uploading file for download ${downloadId}:`, error);
+      console.error(`Error removing local file ${filePath}:`, error);
       return false;
     }
   }
 
   /**
-   * Upload multiple files to a remote destination
+   * Copy one file to a remote file path with rclone, reporting the transfer
+   * stats rclone logs every second. Stays within the bandwidth limit from
+   * the settings; aborting the signal stops rclone.
    */
-  async uploadMultipleFiles(downloadIds: number[], remotePath: string): Promise<{ [key: number]: boolean }> {
-    const results: { [key: number]: boolean } = {};
-    
-    for (const downloadId of downloadIds) {
-      results[downloadId] = await this.uploadFile(downloadId, remotePath);
+  private copyFile(
+    localFilePath: string,
+    remoteFilePath: string,
+    signal: AbortSignal,
+    onProgress: (progress: UploadProgress) => void,
+  ): Promise<void> {
+    const args = rcloneCopyArgs(localFilePath, remoteFilePath, settingsService.get().uploadBandwidth);
+
+    return new Promise((resolve, reject) => {
+      const rclone = spawn('rclone', args, { stdio: ['ignore', 'ignore', 'pipe'], signal });
+      let lastError = '';
+
+      readline.createInterface({ input: rclone.stderr }).on('line', line => {
+        const { progress, error } = parseRcloneLogLine(line);
+        if (progress) onProgress(progress);
+        if (error) lastError = error;
+      });
+
+      rclone.on('error', reject);
+      rclone.on('close', code => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`Rclone error: ${lastError || `rclone exited with code ${code}`}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * The configured remotes, with their credentials redacted
+   */
+  async getConfigRemotes(): Promise<RcloneRemote[]> {
+    return (await this.readConfig()).map(redactRemote);
+  }
+
+  /**
+   * Replace the whole config with an imported rclone.conf
+   */
+  async uploadConfig(configContent: string): Promise<RcloneRemote[]> {
+    const remotes = parseRcloneConfig(configContent);
+    await this.installConfig(configContent, remotes);
+    return remotes.map(redactRemote);
+  }
+
+  /**
+   * Add a remote to the config
+   */
+  async addRemote(remote: RcloneRemote): Promise<RcloneRemote> {
+    const remotes = await this.readConfig();
+    if (remotes.some(existing => existing.name === remote.name)) {
+      throw new RcloneConfigError(`Remote "${remote.name}" already exists`);
     }
-    
-    return results;
+
+    const added = restoreSecrets(remote, undefined);
+    await this.writeRemotes([...remotes, added]);
+    return redactRemote(added);
   }
 
   /**
-   * Upload rclone config data
+   * Replace a remote's settings, keeping the stored value of every option
+   * sent back redacted. Returns undefined when there is no such remote.
    */
-  async uploadConfig(configContent: string): Promise<boolean> {
-    try {
-      // Validate config format (basic check)
-      if (!configContent.includes('[') || !configContent.includes(']')) {
-        throw new Error('Invalid rclone config format');
-      }
+  async updateRemote(name: string, remote: RcloneRemote): Promise<RcloneRemote | undefined> {
+    const remotes = await this.readConfig();
+    const index = remotes.findIndex(existing => existing.name === name);
+    if (index < 0) return undefined;
 
-      // Backup existing config if it exists
-      if (fs.existsSync(this.rcloneConfigPath)) {
-        const backupPath = `${this.rcloneConfigPath}.backup-${Date.now()}`;
-        fs.copyFileSync(this.rcloneConfigPath, backupPath);
-        console.log(`Backed up existing rclone config to ${backupPath}`);
-      }
+    if (remote.name !== name && remotes.some(existing => existing.name === remote.name)) {
+      throw new RcloneConfigError(`Remote "${remote.name}" already exists`);
+    }
+
+    const updated = restoreSecrets(remote, remotes[index]);
+    remotes[index] = updated;
+    await this.writeRemotes(remotes);
+    return redactRemote(updated);
+  }
+
+  /**
+   * Remove a remote from the config
+   */
+  async deleteRemote(name: string): Promise<boolean> {
+    const remotes = await this.readConfig();
+    const remaining = remotes.filter(remote => remote.name !== name);
+    if (remaining.length === remotes.length) return false;
+
+    await this.writeRemotes(remaining);
+    return true;
+  }
+
+  /**
+   * Parse the current config file, empty when there is none yet
+   */
+  private async readConfig(): Promise<RcloneRemote[]> {
+    if (!fs.existsSync(this.rcloneConfigPath)) return [];
+    return parseRcloneConfig(await fs.promises.readFile(this.rcloneConfigPath, 'utf8'));
+  }
+
+  /**
+   * Save remotes as the new config
+   */
+  private async writeRemotes(remotes: RcloneRemote[]): Promise<void> {
+    await this.installConfig(serializeRcloneConfig(remotes), remotes);
+  }
+
+  /**
+   * Backups of the config, newest first, each with what restoring it would
+   * change. Secrets are redacted on both sides of the diff.
+   */
+  async getConfigBackups(): Promise<RcloneConfigBackup[]> {
+    const current = serializeRcloneConfig((await this.readConfig()).map(redactRemote));
 
-      // Write the new config
-      fs.writeFileSync(this.rcloneConfigPath, configContent);
-      
-      // Verify the config works
+    return Promise.all((await this.listBackupIds()).map(async (id): Promise<RcloneConfigBackup> => {
+      const createdAt = new Date(parseInt(id, 10)).toISOString();
       try {
-        await execAsync('rclone listremotes');
-        return true;
-      } catch (error) {
-        // If verification fails, restore from backup if available
-        const backups = fs.readdirSync(path.dirname(this.rcloneConfigPath))
-          .filter(file => file.startsWith(path.basename(this.rcloneConfigPath) + '.backup-'))
-          .sort()
-          .reverse();
-          
-        if (backups.length > 0) {
-          const latestBackup = path.join(path.dirname(this.rcloneConfigPath), backups[0]);
-          fs.copyFileSync(latestBackup, this.rcloneConfigPath);
-          console.log(`Restored rclone config from ${latestBackup}`);
-        }
-        
-        throw error;
+        const remotes = parseRcloneConfig(await fs.promises.readFile(this.getBackupPath(id), 'utf8'));
+        return {
+          id,
+          createdAt,
+          remotes: remotes.map(remote => remote.name),
+          diff: diffLines(current, serializeRcloneConfig(remotes.map(redactRemote))),
+        };
+      } catch (error: any) {
+        return { id, createdAt, remotes: [], diff: [], error: error.message };
       }
-    } catch (error) {
-      console.error('Error uploading rclone config:', error);
-      return false;
+    }));
+  }
+
+  /**
+   * Make a backup the config again. The config it replaces is backed up
+   * too, so a restore can be undone. Returns undefined for unknown backups.
+   */
+  async restoreConfigBackup(id: string): Promise<RcloneRemote[] | undefined> {
+    if (!(await this.listBackupIds()).includes(id)) return undefined;
+
+    const content = await fs.promises.readFile(this.getBackupPath(id), 'utf8');
+    const remotes = parseRcloneConfig(content);
+    await this.installConfig(content, remotes);
+    console.log(`[Rclone] Restored config backup ${id}`);
+    return remotes.map(redactRemote);
+  }
+
+  /**
+   * File of a config backup, named after the time it was taken
+   */
+  private getBackupPath(id: string): string {
+    return `${this.rcloneConfigPath}.backup-${id}`;
+  }
+
+  /**
+   * IDs of the config backups, the timestamps in their file names, newest first
+   */
+  private async listBackupIds(): Promise<string[]> {
+    const prefix = `${path.basename(this.rcloneConfigPath)}.backup-`;
+    const files = await fs.promises.readdir(path.dirname(this.rcloneConfigPath));
+
+    return files
+      .filter(file => file.startsWith(prefix) && /^\d+$/.test(file.slice(prefix.length)))
+      .map(file => file.slice(prefix.length))
+      .sort((a, b) => parseInt(b, 10) - parseInt(a, 10));
+  }
+
+  /**
+   * Back up the current config, then drop the oldest backups beyond the
+   * configured number to keep
+   */
+  private async backupConfig(): Promise<void> {
+    if (!fs.existsSync(this.rcloneConfigPath)) return;
+
+    const backupPath = this.getBackupPath(String(Date.now()));
+    await fs.promises.copyFile(this.rcloneConfigPath, backupPath);
+    await fs.promises.chmod(backupPath, 0o600);
+    console.log(`[Rclone] Backed up existing config to ${backupPath}`);
+
+    const expired = (await this.listBackupIds()).slice(settingsService.get().rcloneConfigBackups);
+    for (const id of expired) {
+      await fs.promises.rm(this.getBackupPath(id), { force: true });
+      console.log(`[Rclone] Removed old config backup ${id}`);
     }
   }
 
   /**
-   * Get current rclone config content
+   * Have rclone read a new config from a scratch copy first, and only swap
+   * it in when every remote comes back from listremotes
    */
-  async getConfigContent(): Promise<string | null> {
+  private async installConfig(content: string, remotes: RcloneRemote[]): Promise<void> {
+    const sandbox = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'rclone-config-'));
+    const sandboxConfig = path.join(sandbox, 'rclone.conf');
+
     try {
-      if (fs.existsSync(this.rcloneConfigPath)) {
-        return fs.readFileSync(this.rcloneConfigPath, 'utf8');
+      await fs.promises.writeFile(sandboxConfig, content, { mode: 0o600 });
+
+      let listed: string;
+      try {
+        const configArgs = ['--config', sandboxConfig, '--ask-password=false'];
+        await execFileAsync('rclone', [...configArgs, 'config', 'show']);
+        ({ stdout: listed } = await execFileAsync('rclone', [...configArgs, 'listremotes']));
+      } catch (error: any) {
+        throw new RcloneConfigError(`rclone rejected the config: ${String(error.stderr || error.message).trim()}`);
       }
-      return '';
-    } catch (error) {
-      console.error('Error getting rclone config:', error);
-      return null;
+
+      const names = listed.split('\n').map(line => line.trim());
+      const missing = remotes.find(remote => !names.includes(`${remote.name}:`));
+      if (missing) {
+        throw new RcloneConfigError(`rclone did not pick up remote "${missing.name}"`);
+      }
+
+      await this.backupConfig();
+
+      // Rename over the old file so rclone never reads half a config
+      const nextPath = `${this.rcloneConfigPath}.next`;
+      await fs.promises.copyFile(sandboxConfig, nextPath);
+      await fs.promises.chmod(nextPath, 0o600);
+      await fs.promises.rename(nextPath, this.rcloneConfigPath);
+      console.log(`[Rclone] Saved config with ${remotes.length} remote(s)`);
+    } finally {
+      await fs.promises.rm(sandbox, { recursive: true, force: true });
     }
   }
 }
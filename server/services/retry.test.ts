@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DownloadError, RetryPolicy, defaultRetryPolicy, getRetryDelay, isRetryableError } from './retry';
+
+describe('getRetryDelay', () => {
+  const policy: RetryPolicy = { ...defaultRetryPolicy, baseDelayMs: 1000, maxDelayMs: 10_000 };
+
+  it.each([
+    [0, 1000],
+    [1, 1000],
+    [2, 2000],
+    [3, 4000],
+    [4, 8000],
+  ])('waits %i failed attempts off with %i ms', (failedAttempts, delay) => {
+    expect(getRetryDelay(failedAttempts, policy)).toBe(delay);
+  });
+
+  it('never waits longer than the maximum delay', () => {
+    expect(getRetryDelay(5, policy)).toBe(10_000);
+    expect(getRetryDelay(50, policy)).toBe(10_000);
+  });
+});
+
+describe('isRetryableError', () => {
+  const networkError = (code: string) => Object.assign(new Error(code), { code });
+
+  it.each([408, 429, 500, 503])('retries HTTP %i', (status) => {
+    expect(isRetryableError(new DownloadError('Failed', { status }), defaultRetryPolicy)).toBe(true);
+  });
+
+  it.each([403, 404, 410])('gives up on HTTP %i', (status) => {
+    expect(isRetryableError(new DownloadError('Failed', { status }), defaultRetryPolicy)).toBe(false);
+  });
+
+  it('uses the status codes of the policy', () => {
+    const policy = { ...defaultRetryPolicy, retryableStatusCodes: [404] };
+    expect(isRetryableError(new DownloadError('Failed', { status: 404 }), policy)).toBe(true);
+    expect(isRetryableError(new DownloadError('Failed', { status: 503 }), policy)).toBe(false);
+  });
+
+  it('follows the flag of download errors without a status', () => {
+    expect(isRetryableError(new DownloadError('Connection closed', { retryable: true }), defaultRetryPolicy)).toBe(true);
+    expect(isRetryableError(new DownloadError('Unsupported HLS encryption'), defaultRetryPolicy)).toBe(false);
+    expect(isRetryableError(new DownloadError('No data received', { stalled: true }), defaultRetryPolicy)).toBe(true);
+  });
+
+  it('retries network errors, also when fetch wraps them', () => {
+    expect(isRetryableError(networkError('ECONNRESET'), defaultRetryPolicy)).toBe(true);
+    expect(isRetryableError(new TypeError('fetch failed', { cause: networkError('UND_ERR_SOCKET') }), defaultRetryPolicy)).toBe(true);
+    expect(isRetryableError(new TypeError('terminated'), defaultRetryPolicy)).toBe(true);
+  });
+
+  it('gives up on anything else', () => {
+    expect(isRetryableError(networkError('ENOSPC'), defaultRetryPolicy)).toBe(false);
+    expect(isRetryableError(new TypeError('Cannot read properties of undefined'), defaultRetryPolicy)).toBe(false);
+    expect(isRetryableError(new Error('Episode not found'), defaultRetryPolicy)).toBe(false);
+    expect(isRetryableError(undefined, defaultRetryPolicy)).toBe(false);
+  });
+});
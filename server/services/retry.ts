@@ -0,0 +1,79 @@
+/**
+ * Retry policy for failed downloads
+ */
+export interface RetryPolicy {
+  // Total number of attempts, including the first one
+  maxAttempts: number;
+  // Delay before the first retry, doubled for every retry after that
+  baseDelayMs: number;
+  // Upper bound for the delay between two attempts
+  maxDelayMs: number;
+  // HTTP status codes worth trying again
+  retryableStatusCodes: number[];
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 15_000,
+  maxDelayMs: 10 * 60_000,
+  retryableStatusCodes: [408, 425, 429, 500, 502, 503, 504],
+};
+
+// Low-level socket errors that usually go away on their own
+const networkErrorCodes = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+];
+
+/**
+ * Error raised by the downloader, carrying the HTTP status when there is one
+ */
+export class DownloadError extends Error {
+  status?: number;
+  retryable: boolean;
+  // No data arrived for too long, the mirror is likely overloaded
+  stalled: boolean;
+
+  constructor(message: string, options: { status?: number, retryable?: boolean, stalled?: boolean } = {}) {
+    super(message);
+    this.name = 'DownloadError';
+    this.status = options.status;
+    this.stalled = options.stalled ?? false;
+    this.retryable = options.retryable ?? this.stalled;
+  }
+}
+
+/**
+ * Check whether a failed attempt should be retried
+ */
+export function isRetryableError(error: any, policy: RetryPolicy): boolean {
+  if (error instanceof DownloadError) {
+    if (error.status !== undefined) {
+      return policy.retryableStatusCodes.includes(error.status);
+    }
+    return error.retryable;
+  }
+
+  const code = error?.code || error?.cause?.code;
+  if (code && networkErrorCodes.includes(code)) {
+    return true;
+  }
+
+  // fetch reports dropped connections as bare TypeErrors
+  return error instanceof TypeError && (error.message === 'fetch failed' || error.message === 'terminated');
+}
+
+/**
+ * Delay before the next attempt, given how many attempts have failed so far
+ */
+export function getRetryDelay(failedAttempts: number, policy: RetryPolicy): number {
+  const delay = policy.baseDelayMs * Math.pow(2, Math.max(failedAttempts - 1, 0));
+  return Math.min(delay, policy.maxDelayMs);
+}
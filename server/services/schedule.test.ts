@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { isWithinWindow, msUntil } from './schedule';
+
+// Local times on an arbitrary day
+const at = (hours: number, minutes: number, seconds = 0) => new Date(2025, 0, 15, hours, minutes, seconds);
+
+describe('isWithinWindow', () => {
+  it.each([
+    [at(8, 59), false],
+    [at(9, 0), true],
+    [at(12, 30), true],
+    [at(16, 59), true],
+    [at(17, 0), false],
+  ])('reads %s against a window from 09:00 to 17:00 as %s', (date, within) => {
+    expect(isWithinWindow('09:00', '17:00', date)).toBe(within);
+  });
+
+  it.each([
+    [at(21, 59), false],
+    [at(22, 0), true],
+    [at(0, 0), true],
+    [at(5, 59), true],
+    [at(6, 0), false],
+    [at(12, 0), false],
+  ])('reads %s against a window from 22:00 past midnight to 06:00 as %s', (date, within) => {
+    expect(isWithinWindow('22:00', '06:00', date)).toBe(within);
+  });
+
+  it('never applies a window without a start or end, or with equal ones', () => {
+    expect(isWithinWindow('', '06:00', at(3, 0))).toBe(false);
+    expect(isWithinWindow('22:00', '', at(23, 0))).toBe(false);
+    expect(isWithinWindow('08:00', '08:00', at(8, 0))).toBe(false);
+  });
+});
+
+describe('msUntil', () => {
+  it('counts to a time later the same day', () => {
+    expect(msUntil('17:00', at(9, 0))).toBe(8 * 60 * 60_000);
+  });
+
+  it('counts to a time that has passed today into tomorrow', () => {
+    expect(msUntil('06:00', at(22, 0))).toBe(8 * 60 * 60_000);
+  });
+
+  it('counts a full day to the current minute', () => {
+    expect(msUntil('09:00', at(9, 0))).toBe(24 * 60 * 60_000);
+  });
+
+  it('counts from the exact second', () => {
+    expect(msUntil('09:01', at(9, 0, 30))).toBe(30_000);
+  });
+});
@@ -0,0 +1,34 @@
+// Daily time windows given as local "HH:MM" times
+
+const DAY_MINUTES = 24 * 60;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a date's local time falls in the daily window from start up to
+ * end. A window ending before it starts runs past midnight, one with an
+ * unset or equal start and end never applies.
+ */
+export function isWithinWindow(start: string, end: string, date: Date = new Date()): boolean {
+  if (!start || !end || start === end) return false;
+
+  const now = date.getHours() * 60 + date.getMinutes();
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+
+  return from < to
+    ? now >= from && now < to
+    : now >= from || now < to;
+}
+
+/**
+ * Milliseconds from a date until the local time next reads "HH:MM"
+ */
+export function msUntil(time: string, date: Date = new Date()): number {
+  const now = date.getHours() * 60 + date.getMinutes();
+  const minutes = (toMinutes(time) - now + DAY_MINUTES) % DAY_MINUTES || DAY_MINUTES;
+  return minutes * 60_000 - date.getSeconds() * 1000 - date.getMilliseconds();
+}
@@ -0,0 +1,108 @@
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Scraper } from './scraper';
+import { siteRegistry } from './sites';
+
+// Pages recorded from wcofun, replayed with no network
+const FIXTURES_DIR = path.resolve(import.meta.dirname, '..', 'fixtures', 'scraper');
+const SERIES_URL = 'https://www.wcofun.net/anime/example-show';
+const EPISODE_URL = 'https://www.wcofun.net/example-show-episode-1-english-dubbed';
+const SEASON_2_URL = 'https://www.wcofun.net/example-show-season-2-episode-1-english-dubbed';
+
+describe('Scraper in replay mode', () => {
+  const scraper = new Scraper();
+  const adapter = siteRegistry.getAdapter(SERIES_URL);
+
+  beforeAll(() => {
+    scraper.setMode('replay', FIXTURES_DIR);
+  });
+
+  it('parses the series info', async () => {
+    const html = await scraper.getSourceHtml(SERIES_URL);
+
+    expect(adapter.parseSeriesInfo(html, SERIES_URL)).toEqual({
+      title: 'Example Show',
+      description: 'Example Show follows a pair of friends on a series of small adventures around their home town.',
+      totalEpisodes: 3,
+      imageUrl: 'https://cdn.wcofun.net/images/example-show.jpg',
+      sourceUrl: SERIES_URL,
+    });
+  });
+
+  it('parses the episode list with episode and season numbers', async () => {
+    const html = await scraper.getSourceHtml(SERIES_URL);
+    const episodes = adapter.parseEpisodeList(html, 7, SERIES_URL);
+
+    expect(episodes.map(({ title, episodeNumber, season, sourceUrl, seriesId }) => ({
+      title, episodeNumber, season, sourceUrl, seriesId,
+    }))).toEqual([
+      {
+        title: 'Example Show Season 2 Episode 1 English Dubbed',
+        episodeNumber: 1,
+        season: 2,
+        sourceUrl: SEASON_2_URL,
+        seriesId: 7,
+      },
+      {
+        title: 'Example Show Episode 2 English Dubbed',
+        episodeNumber: 2,
+        season: 1,
+        sourceUrl: 'https://www.wcofun.net/example-show-episode-2-english-dubbed',
+        seriesId: 7,
+      },
+      {
+        title: 'Example Show Episode 1 English Dubbed',
+        episodeNumber: 1,
+        season: 1,
+        sourceUrl: EPISODE_URL,
+        seriesId: 7,
+      },
+    ]);
+  });
+
+  it('parses the episode title and series link', async () => {
+    const html = await scraper.getSourceHtml(EPISODE_URL);
+
+    expect(adapter.parseEpisodeInfo(html, EPISODE_URL)).toEqual({
+      title: 'Example Show Episode 1 English Dubbed',
+      seriesUrl: SERIES_URL,
+    });
+  });
+
+  it('finds the labelled mp4 sources of a jwplayer embed', async () => {
+    const html = await scraper.getSourceHtml(EPISODE_URL);
+
+    expect(await scraper.parseEpisodePage(html, EPISODE_URL)).toEqual([
+      {
+        url: 'https://cdn1.wcofun.net/getvid/example-show-episode-1-sd.mp4?token=a1b2c3&expires=1760000000',
+        host: 'cdn1.wcofun.net',
+        quality: '480p',
+        container: 'mp4',
+      },
+      {
+        url: 'https://cdn1.wcofun.net/getvid/example-show-episode-1-hd.mp4?token=a1b2c3&expires=1760000000',
+        host: 'cdn1.wcofun.net',
+        quality: '720p',
+        container: 'mp4',
+      },
+    ]);
+  });
+
+  it('finds the hls source of a video.js embed', async () => {
+    const html = await scraper.getSourceHtml(SEASON_2_URL);
+
+    expect(await scraper.parseEpisodePage(html, SEASON_2_URL)).toEqual([
+      {
+        url: 'https://cdn2.wcofun.net/hls/example-show-season-2-episode-1/index.m3u8?token=d4e5f6',
+        host: 'cdn2.wcofun.net',
+        quality: 'HD',
+        container: 'hls',
+      },
+    ]);
+  });
+
+  it('fails for pages that were never recorded', async () => {
+    await expect(scraper.getSourceHtml('https://www.wcofun.net/not-recorded'))
+      .rejects.toThrow(/No fixture recorded/);
+  });
+});
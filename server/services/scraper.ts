@@ -1,10 +1,55 @@
 import fetch from 'node-fetch';
 import * as cheerio from 'cheerio';
-import { InsertSeries, InsertEpisode } from '@shared/schema';
+import { VideoSource } from '@shared/schema';
+import { siteRegistry, UrlType } from './sites';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 
+// live fetches from the network, record also saves every fetched page as a
+// fixture, replay serves pages from the fixtures directory with no network
+export type ScraperMode = 'live' | 'record' | 'replay';
+
 export class Scraper {
+  private mode: ScraperMode;
+  private fixturesDir: string;
+
+  constructor() {
+    const mode = process.env.SCRAPER_MODE;
+    this.mode = mode === 'record' || mode === 'replay' ? mode : 'live';
+    this.fixturesDir = path.resolve(process.env.SCRAPER_FIXTURES_DIR || path.join(process.cwd(), 'server', 'fixtures', 'scraper'));
+
+    if (this.mode !== 'live') {
+      console.log(`[Scraper] Running in ${this.mode} mode with fixtures in ${this.fixturesDir}`);
+    }
+  }
+
+  /**
+   * Switch between live, record and replay mode, optionally with another fixtures directory
+   */
+  setMode(mode: ScraperMode, fixturesDir?: string): void {
+    this.mode = mode;
+    if (fixturesDir) {
+      this.fixturesDir = path.resolve(fixturesDir);
+    }
+  }
+
+  /**
+   * Path a page is recorded to: one directory per host and a file named
+   * after the URL path. Query strings are told apart by a short hash.
+   */
+  getFixturePath(url: string): string {
+    const parsed = new URL(url);
+    const slug = parsed.pathname
+      .replace(/^\/+|\/+$/g, '')
+      .replace(/[^a-z0-9.-]+/gi, '_') || 'index';
+    const suffix = parsed.search
+      ? `-${crypto.createHash('sha1').update(parsed.search).digest('hex').slice(0, 8)}`
+      : '';
+
+    return path.join(this.fixturesDir, parsed.hostname, `${slug}${suffix}.html`);
+  }
+
   /**
    * Check if a URL is a valid video URL that can be downloaded
    */
@@ -52,362 +97,161 @@ export class Scraper {
    * Get source HTML from a URL
    */
   async getSourceHtml(url: string): Promise<string> {
+    if (this.mode === 'replay') {
+      const fixturePath = this.getFixturePath(url);
+      if (!fs.existsSync(fixturePath)) {
+        throw new Error(`No fixture recorded for ${url} (expected ${fixturePath})`);
+      }
+      return fs.promises.readFile(fixturePath, 'utf8');
+    }
+    
+    let html: string;
     try {
       const response = await fetch(url);
       if (!response.ok) {
         throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
       }
-      return await response.text();
+      html = await response.text();
     } catch (error) {
       throw new Error(`Error fetching ${url}: ${error}`);
     }
+    
+    if (this.mode === 'record') {
+      const fixturePath = this.getFixturePath(url);
+      await fs.promises.mkdir(path.dirname(fixturePath), { recursive: true });
+      await fs.promises.writeFile(fixturePath, html);
+      console.log(`[Scraper] Recorded ${url} to ${fixturePath}`);
+    }
+    
+    return html;
   }
 
   /**
    * Determine if the URL is for a series or a single episode
    */
-  determineUrlType(url: string): { type: 'series' | 'episode', url: string } {
-    const normalizedUrl = url.toLowerCase();
-    console.log(`[Scraper] Determining URL type for: ${normalizedUrl}`);
+  determineUrlType(url: string): { type: UrlType, url: string } {
+    console.log(`[Scraper] Determining URL type for: ${url.toLowerCase()}`);
     
-    // WCOFun series URL patterns - not all use /anime/
-    if (
-      normalizedUrl.includes('/anime/') ||
-      normalizedUrl.includes('/category/') ||
-      normalizedUrl.includes('/series/') ||
-      normalizedUrl.includes('/cartoon/') ||
-      // If URL ends with a title and not a specific episode
-      (!normalizedUrl.includes('/episode') && !normalizedUrl.includes('/watch/') && !normalizedUrl.includes('/video/'))
-    ) {
-      console.log(`[Scraper] Determined as series URL`);
-      return { type: 'series', url };
-    } else {
-      console.log(`[Scraper] Determined as episode URL`);
-      return { type: 'episode', url };
-    }
+    const adapter = siteRegistry.getAdapter(url);
+    const type = adapter.determineUrlType(url);
+    
+    console.log(`[Scraper] Determined as ${type} URL by ${adapter.name} adapter`);
+    return { type, url };
   }
 
   /**
-   * Parse series information from HTML
+   * Parse a single episode page to get the candidate video sources,
+   * best candidate first
    */
-  parseSeriesInfo(html: string, sourceUrl: string): InsertSeries {
-    const $ = cheerio.load(html);
+  async parseEpisodePage(html: string, pageUrl: string): Promise<VideoSource[]> {
+    console.log(`[Scraper] Parsing episode page to find video sources`);
     
-    // Try different selectors for title
-    let title = $('.video-title').text().trim();
-    console.log(`[Scraper] Title from .video-title: "${title}"`);
+    const sources = await siteRegistry.getAdapter(pageUrl).extractVideoSources(html, pageUrl, this);
+    const ranked = this.rankVideoSources(sources);
     
-    if (!title) {
-      title = $('h1.title').text().trim();
-      console.log(`[Scraper] Title from h1.title: "${title}"`);
-    }
-    
-    if (!title) {
-      title = $('title').text().trim().replace(' | WCO', '').replace('Watch ', '');
-      console.log(`[Scraper] Title from title tag: "${title}"`);
-    }
-    
-    if (!title) {
-      // Extract from URL as last resort
-      const urlParts = sourceUrl.split('/');
-      const lastPart = urlParts[urlParts.length - 1];
-      title = lastPart.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
-      console.log(`[Scraper] Title from URL: "${title}"`);
-    }
-    
-    // Get description from the appropriate meta tag or content div
-    let description = $('meta[name="description"]').attr('content') || '';
-    if (!description) {
-      description = $('.content-padding p').text().trim();
-    }
-    
-    if (!description) {
-      description = $('.desc').text().trim();
-    }
-    
-    // Count episodes
-    let episodeElements = $('.listing a');
-    let totalEpisodes = episodeElements.length;
-    
-    // Try alternative episode selectors if the first one returns 0
-    if (totalEpisodes === 0) {
-      episodeElements = $('#catlist-listview a');
-      totalEpisodes = episodeElements.length;
-    }
-    
-    if (totalEpisodes === 0) {
-      episodeElements = $('.cat-eps a');
-      totalEpisodes = episodeElements.length;
-    }
-    
-    if (totalEpisodes === 0) {
-      // Count links that might be episodes
-      totalEpisodes = $('a').filter((i, el) => {
-        const href = $(el).attr('href') || '';
-        return href.includes('/watch/') || href.includes('/video/');
-      }).length;
-    }
-    
-    // Get image URL - try different selectors
-    let imageUrl = $('.img-responsive').attr('src') || '';
-    if (!imageUrl) {
-      imageUrl = $('.thumb img').attr('src') || '';
-    }
-    
-    if (!imageUrl) {
-      imageUrl = $('meta[property="og:image"]').attr('content') || '';
+    if (ranked.length > 0) {
+      console.log(`[Scraper] Found ${ranked.length} video sources, best: ${ranked[0].url}`);
+    } else {
+      console.log(`[Scraper] Could not find any video URL in the episode page`);
     }
     
-    console.log(`[Scraper] Parsed series: title="${title}", description length=${description.length}, episodes=${totalEpisodes}, imageUrl=${imageUrl ? 'exists' : 'not found'}`);
-    
-    return {
-      title,
-      description,
-      totalEpisodes,
-      imageUrl,
-      sourceUrl
-    };
+    return ranked;
   }
 
   /**
-   * Parse episode information from series HTML
+   * Collect every valid video URL from a player page into sources
    */
-  parseEpisodeList(html: string, seriesId: number): InsertEpisode[] {
-    const $ = cheerio.load(html);
-    const episodes: InsertEpisode[] = [];
-    
-    // Try different selectors to find episodes list
-    let episodeElements = $('.listing a');
-    console.log(`[Scraper] Found ${episodeElements.length} episodes with .listing a selector`);
-    
-    // If the primary selector doesn't work, try alternatives
-    if (episodeElements.length === 0) {
-      episodeElements = $('#catlist-listview a');
-      console.log(`[Scraper] Found ${episodeElements.length} episodes with #catlist-listview a selector`);
-    }
-    
-    if (episodeElements.length === 0) {
-      episodeElements = $('.cat-eps a');
-      console.log(`[Scraper] Found ${episodeElements.length} episodes with .cat-eps a selector`);
-    }
-    
-    if (episodeElements.length === 0) {
-      // Try a more generic approach - match all wcofun links with episode in the URL or text
-      episodeElements = $('a').filter((i, el) => {
-        const href = $(el).attr('href') || '';
-        const text = $(el).text().trim().toLowerCase();
-        
-        // Look for typical episode indicators
-        return (
-          (href.includes('wcofun.net') || href.startsWith('/')) && 
-          (href.includes('episode') || 
-           href.includes('-episode-') || 
-           text.includes('episode') || 
-           (href.includes('dubbed') || href.includes('subbed')))
-        );
-      });
-      console.log(`[Scraper] Found ${episodeElements.length} episodes with generic episode pattern`);
-    }
-    
-    if (episodeElements.length === 0) {
-      // As a last resort, try to find all links that might be episodes
-      // by looking at link patterns common on the site
-      episodeElements = $('a').filter((i, el) => {
-        const href = $(el).attr('href') || '';
-        // For wcofun, most episode links have these patterns:
-        return (
-          href.includes('wcofun.net') ||
-          (href.startsWith('/') && 
-            (href.includes('-episode-') || 
-             href.includes('-english-') || 
-             href.includes('dubbed') || 
-             href.includes('subbed')))
-        );
-      });
-      console.log(`[Scraper] Last resort found ${episodeElements.length} possible episode links`);
-    }
-    
-    // Log all links for debugging
-    console.log('[Scraper] All links on page:');
-    $('a').each((i, el) => {
-      const href = $(el).attr('href') || '';
-      const text = $(el).text().trim();
-      if (href && text) {
-        console.log(`  ${i}: ${text} - ${href}`);
-      }
-    });
-    
-    // Process all found episode links
-    episodeElements.each((index, element) => {
-      const $element = $(element);
-      const title = $element.text().trim();
-      let sourceUrl = $element.attr('href') || '';
-      
-      if (!sourceUrl) return;
-      
-      // Construct the full URL if it's a relative path
-      const fullUrl = sourceUrl.startsWith('http') 
-        ? sourceUrl 
-        : `https://www.wcofun.net${sourceUrl.startsWith('/') ? '' : '/'}${sourceUrl}`;
+  collectVideoSources($: cheerio.CheerioAPI, sources: VideoSource[], location: string): void {
+    const addSource = (rawUrl: string | undefined, qualityHint?: string) => {
+      // Player configs are often JSON with escaped slashes
+      const url = rawUrl?.replace(/\\\//g, '/');
+      if (!url || sources.some(source => source.url === url)) return;
       
-      // Try to extract episode number and season from title
-      const episodeMatch = title.match(/episode\s*(\d+)/i) || 
-                          sourceUrl.match(/episode[^0-9]*(\d+)/i) ||
-                          sourceUrl.match(/-(\d+)-english/i);
-                          
-      const seasonMatch = title.match(/season\s*(\d+)/i) || 
-                         sourceUrl.match(/season[^0-9]*(\d+)/i);
-      
-      const episodeNumber = episodeMatch ? parseInt(episodeMatch[1]) : index + 1;
-      const season = seasonMatch ? parseInt(seasonMatch[1]) : 1;
-      
-      // Don't add duplicates
-      if (!episodes.some(e => e.sourceUrl === fullUrl)) {
-        episodes.push({
-          seriesId,
-          title: title || `Episode ${episodeNumber}`,
-          episodeNumber,
-          season,
-          duration: '', // This will be determined when downloading
-          sourceUrl: fullUrl,
-          downloadUrl: '',
-        });
+      // Validate URL is a valid video file URL
+      if (!this.isValidVideoUrl(url)) {
+        console.log(`[Scraper] Found invalid video URL in ${location}: ${url}, skipping`);
+        return;
       }
+      
+      sources.push(this.describeVideoSource(url, qualityHint));
+      console.log(`[Scraper] Found valid video URL in ${location}: ${url}`);
+    };
+    
+    // Look for video sources
+    $('video source').each((_, source) => {
+      addSource($(source).attr('src'), $(source).attr('label') || $(source).attr('res'));
     });
     
-    console.log(`[Scraper] Created ${episodes.length} episode objects for series ID ${seriesId}`);
-    return episodes;
-  }
-
-  /**
-   * Parse a single episode page to get the download URL
-   */
-  async parseEpisodePage(html: string): Promise<string> {
-    const $ = cheerio.load(html);
-    console.log(`[Scraper] Parsing episode page to find video URL`);
+    // Check for video element with src
+    addSource($('video').attr('src'));
     
-    // First try to find direct download link
-    let downloadUrl = '';
+    // Try to find from script tags
+    const scripts = $('script').toArray();
+    console.log(`[Scraper] Checking ${scripts.length} script tags in ${location}`);
     
-    // Get all iframes, not just the first one
-    const iframes = $('iframe').toArray();
-    console.log(`[Scraper] Found ${iframes.length} iframes on the page`);
+    const patterns = [
+      /['"]([^'"]*\.mp4)['"]/g,
+      /['"]([^'"]*\.m3u8)['"]/g,
+      /file:\s*['"]([^'"]+)['"]/g,
+      /source:\s*['"]([^'"]+)['"]/g,
+    ];
     
-    // Try to get video from each iframe
-    for (const iframe of iframes) {
-      const iframeSrc = $(iframe).attr('src');
-      if (!iframeSrc) continue;
+    for (const script of scripts) {
+      const scriptContent = $(script).html() || '';
       
-      console.log(`[Scraper] Processing iframe with src: ${iframeSrc}`);
-      
-      try {
-        // Need to get the content from the iframe to find the actual video source
-        const iframeHtml = await this.getSourceHtml(iframeSrc);
-        const $iframe = cheerio.load(iframeHtml);
-        
-        // Look for video sources in the iframe
-        const videoSources = $iframe('video source').toArray();
-        for (const source of videoSources) {
-          const src = $iframe(source).attr('src');
-          if (src && this.isValidVideoUrl(src)) {
-            downloadUrl = src;
-            console.log(`[Scraper] Found valid video source in iframe: ${downloadUrl}`);
-            break;
-          }
-        }
-        
-        if (!downloadUrl) {
-          // If no direct video source, check for video element with src
-          const videoSrc = $iframe('video').attr('src');
-          if (videoSrc && this.isValidVideoUrl(videoSrc)) {
-            downloadUrl = videoSrc;
-            console.log(`[Scraper] Found valid video element with src: ${downloadUrl}`);
-          }
-        }
-        
-        if (!downloadUrl) {
-          // Try to find from script tags
-          const scripts = $iframe('script').toArray();
-          console.log(`[Scraper] Checking ${scripts.length} script tags in iframe`);
-          
-          for (const script of scripts) {
-            const scriptContent = $iframe(script).html() || '';
-            
-            // Check for different video URL patterns
-            let match = scriptContent.match(/['"]([^'"]*\.mp4)['"]/);
-            if (!match) match = scriptContent.match(/['"]([^'"]*\.m3u8)['"]/);
-            if (!match) match = scriptContent.match(/file:\s*['"]([^'"]+)['"]/);
-            if (!match) match = scriptContent.match(/source:\s*['"]([^'"]+)['"]/);
-            
-            if (match && match[1]) {
-              const url = match[1];
-              // Validate URL is a valid video file URL
-              if (this.isValidVideoUrl(url)) {
-                downloadUrl = url;
-                console.log(`[Scraper] Found valid video URL in script: ${downloadUrl}`);
-                break;
-              } else {
-                console.log(`[Scraper] Found invalid video URL in script: ${url}, skipping`);
-              }
-            }
-          }
+      // Players list every quality variant as { file: "...", label: "720p" },
+      // these go first so the label sticks to the URL
+      for (const entry of Array.from(scriptContent.matchAll(/\{[^{}]*\}/g))) {
+        const file = entry[0].match(/['"]?(?:file|src)['"]?\s*:\s*['"]([^'"]+)['"]/);
+        const label = entry[0].match(/['"]?(?:label|res|quality)['"]?\s*:\s*['"]?([^'",}]+)/);
+        if (file) {
+          addSource(file[1], label?.[1].trim());
         }
-        
-        // If we found a URL, break the loop
-        if (downloadUrl) break;
-        
-      } catch (error) {
-        console.error(`[Scraper] Error parsing iframe ${iframeSrc}:`, error);
-      }
-    }
-    
-    // Check main page if no URL found in iframes
-    if (!downloadUrl) {
-      console.log(`[Scraper] Checking main page for video URL`);
-      
-      // Check for video elements in the main page
-      const videoSrc = $('video').attr('src');
-      if (videoSrc && this.isValidVideoUrl(videoSrc)) {
-        downloadUrl = videoSrc;
-        console.log(`[Scraper] Found valid video source in main page: ${downloadUrl}`);
       }
       
-      if (!downloadUrl) {
-        // Try to find in the main page scripts
-        const scripts = $('script').toArray();
-        console.log(`[Scraper] Checking ${scripts.length} script tags in main page`);
-        
-        for (const script of scripts) {
-          const scriptContent = $(script).html() || '';
-          
-          // Check for different video URL patterns
-          let match = scriptContent.match(/['"]([^'"]*\.mp4)['"]/);
-          if (!match) match = scriptContent.match(/['"]([^'"]*\.m3u8)['"]/);
-          if (!match) match = scriptContent.match(/file:\s*['"]([^'"]+)['"]/);
-          if (!match) match = scriptContent.match(/source:\s*['"]([^'"]+)['"]/);
-          
-          if (match && match[1]) {
-            const url = match[1];
-            // Validate URL is a valid video file URL
-            if (this.isValidVideoUrl(url)) {
-              downloadUrl = url;
-              console.log(`[Scraper] Found valid video URL in main page script: ${downloadUrl}`);
-              break;
-            } else {
-              console.log(`[Scraper] Found invalid video URL in main page script: ${url}, skipping`);
-            }
-          }
+      for (const pattern of patterns) {
+        for (const match of Array.from(scriptContent.matchAll(pattern))) {
+          addSource(match[1]);
         }
       }
     }
+  }
+
+  /**
+   * Describe a video URL with its host, container and quality hint
+   */
+  private describeVideoSource(url: string, qualityHint?: string): VideoSource {
+    const lowerUrl = url.toLowerCase();
+    const extension = ['.mp4', '.m3u8', '.flv', '.webm', '.mov', '.mkv'].find(ext => lowerUrl.includes(ext));
+    const container = extension === '.m3u8' ? 'hls' : extension ? extension.slice(1) : 'unknown';
     
-    if (downloadUrl) {
-      console.log(`[Scraper] Successfully found download URL: ${downloadUrl}`);
-    } else {
-      console.log(`[Scraper] Could not find any video URL in the episode page`);
-    }
+    return {
+      url,
+      host: new URL(url).hostname,
+      quality: this.parseQualityHint(qualityHint || '') || this.parseQualityHint(url),
+      container,
+    };
+  }
+
+  /**
+   * Turn a label or URL fragment into a quality hint such as "720p" or "HD"
+   */
+  private parseQualityHint(text: string): string | null {
+    const resolution = text.match(/\b(\d{3,4})p\b/i) || text.match(/^(\d{3,4})$/);
+    if (resolution) return `${resolution[1]}p`;
     
-    return downloadUrl;
+    const label = text.match(/\b(fhd|hd|sd)\b/i);
+    return label ? label[1].toUpperCase() : null;
+  }
+
+  /**
+   * Order sources so the easiest to download come first. Direct MP4 files
+   * can be resumed byte for byte, HLS needs a remux, anything else is a
+   * last resort. Page order is kept within each group.
+   */
+  private rankVideoSources(sources: VideoSource[]): VideoSource[] {
+    const containerRank = (container: string) => container === 'mp4' ? 0 : container === 'hls' ? 1 : 2;
+    return [...sources].sort((a, b) => containerRank(a.container) - containerRank(b.container));
   }
 }
 
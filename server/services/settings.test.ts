@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SettingsService } from './settings';
+
+describe('SettingsService defaults from the environment', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('seeds defaults from valid environment variables', async () => {
+    vi.stubEnv('DEFAULT_QUALITY', '720p');
+    vi.stubEnv('MAX_CONCURRENT_DOWNLOADS', '5');
+
+    const settings = new SettingsService();
+    await settings.load();
+
+    expect(settings.get()).toMatchObject({ defaultQuality: '720p', maxConcurrentDownloads: 5 });
+  });
+
+  it.each([
+    ['DEFAULT_QUALITY', 'best', { defaultQuality: 'highest' }],
+    ['MAX_CONCURRENT_DOWNLOADS', '50', { maxConcurrentDownloads: 3 }],
+    ['MAX_CONCURRENT_DOWNLOADS', 'many', { maxConcurrentDownloads: 3 }],
+  ])('falls back to the default for %s=%s with a warning', async (name, value, expected) => {
+    vi.stubEnv(name, value);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const settings = new SettingsService();
+    await settings.load();
+
+    expect(settings.get()).toMatchObject(expected);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`Ignoring ${name}=${value}`));
+  });
+});
@@ -0,0 +1,95 @@
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { Settings, UpdateSettings, settingsSchema } from '@shared/schema';
+
+export class SettingsService {
+  private settings: Settings;
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.settings = this.getDefaults();
+  }
+
+  /**
+   * Defaults for settings that were never saved. The environment variables
+   * from before settings were stored still seed them.
+   */
+  private getDefaults(): Settings {
+    const defaults = settingsSchema.parse({});
+
+    if (process.env.MAX_CONCURRENT_DOWNLOADS) {
+      defaults.maxConcurrentDownloads = this.parseEnv(
+        'MAX_CONCURRENT_DOWNLOADS',
+        settingsSchema.shape.maxConcurrentDownloads,
+        parseInt(process.env.MAX_CONCURRENT_DOWNLOADS, 10),
+        defaults.maxConcurrentDownloads,
+      );
+    }
+    if (process.env.DEFAULT_QUALITY) {
+      defaults.defaultQuality = this.parseEnv(
+        'DEFAULT_QUALITY',
+        settingsSchema.shape.defaultQuality,
+        process.env.DEFAULT_QUALITY,
+        defaults.defaultQuality,
+      );
+    }
+
+    return defaults;
+  }
+
+  /**
+   * Check an environment variable against its setting's schema, so a bad
+   * value falls back to the default with a warning instead of stopping boot
+   */
+  private parseEnv<T>(name: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: unknown, fallback: T): T {
+    const parsed = schema.safeParse(value);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    console.warn(`[Settings] Ignoring ${name}=${process.env[name]}: ${parsed.error.issues[0].message}. Using ${fallback}`);
+    return fallback;
+  }
+
+  /**
+   * Load saved settings from storage. Fields added since they were saved get their defaults.
+   */
+  async load(): Promise<void> {
+    const saved = await storage.getSettings();
+    this.settings = settingsSchema.parse({ ...this.getDefaults(), ...saved });
+    console.log(`[Settings] Loaded ${saved ? 'saved' : 'default'} settings`);
+  }
+
+  /**
+   * Current settings
+   */
+  get(): Settings {
+    return this.settings;
+  }
+
+  /**
+   * Validate, save and apply a partial settings update
+   */
+  async update(data: UpdateSettings): Promise<Settings> {
+    const previous = this.settings;
+    const next = settingsSchema.parse({ ...previous, ...data });
+
+    this.settings = await storage.saveSettings(next);
+    this.emitter.emit('change', this.settings, previous);
+
+    return this.settings;
+  }
+
+  /**
+   * Listen for settings changes, returns a function that stops listening
+   */
+  subscribe(listener: (settings: Settings, previous: Settings) => void): () => void {
+    this.emitter.on('change', listener);
+    return () => {
+      this.emitter.off('change', listener);
+    };
+  }
+}
+
+export const settingsService = new SettingsService();
@@ -0,0 +1,55 @@
+import type { SiteAdapter } from './types';
+import { WcofunAdapter } from './wcofun';
+
+export type { SiteAdapter, EpisodePageInfo, UrlType } from './types';
+
+/**
+ * Raised for URLs no registered site adapter handles
+ */
+export class UnsupportedSiteError extends Error {
+  constructor(url: string) {
+    super(`No site adapter supports ${url}`);
+    this.name = 'UnsupportedSiteError';
+  }
+}
+
+export class SiteRegistry {
+  private adapters: SiteAdapter[] = [];
+
+  /**
+   * Add an adapter. Adapters registered first win when several match.
+   */
+  register(adapter: SiteAdapter): void {
+    this.adapters.push(adapter);
+    console.log(`[Scraper] Registered site adapter: ${adapter.name}`);
+  }
+
+  /**
+   * Find the adapter for a URL, or undefined when no site matches
+   */
+  findAdapter(url: string): SiteAdapter | undefined {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return undefined;
+    }
+    return this.adapters.find(adapter => adapter.matches(parsed));
+  }
+
+  /**
+   * Find the adapter for a URL, throwing when no site matches
+   */
+  getAdapter(url: string): SiteAdapter {
+    const adapter = this.findAdapter(url);
+    if (!adapter) {
+      throw new UnsupportedSiteError(url);
+    }
+    return adapter;
+  }
+}
+
+export const siteRegistry = new SiteRegistry();
+// WCOFUN_BASE_URL points the adapter at another site, such as the dev mock site,
+// and may include a path prefix like http://localhost:5000/mock-site
+siteRegistry.register(new WcofunAdapter(process.env.WCOFUN_BASE_URL));
@@ -0,0 +1,49 @@
+import type { InsertSeries, InsertEpisode, VideoSource } from '@shared/schema';
+import type { Scraper } from '../scraper';
+
+export type UrlType = 'series' | 'episode';
+
+// Episode details read from an episode page
+export interface EpisodePageInfo {
+  title: string;
+  seriesUrl: string | null; // series page the episode links back to, when there is one
+}
+
+/**
+ * Everything the scraper needs to know about one streaming site. Mirror
+ * domains and sister sites get an adapter each and are picked by URL.
+ */
+export interface SiteAdapter {
+  name: string;
+
+  /**
+   * Whether this adapter handles the given URL
+   */
+  matches(url: URL): boolean;
+
+  /**
+   * Tell series pages from episode pages
+   */
+  determineUrlType(url: string): UrlType;
+
+  /**
+   * Parse series information from a series page
+   */
+  parseSeriesInfo(html: string, sourceUrl: string): InsertSeries;
+
+  /**
+   * Parse the episode list from a series page
+   */
+  parseEpisodeList(html: string, seriesId: number, sourceUrl: string): InsertEpisode[];
+
+  /**
+   * Parse the title and series link from an episode page
+   */
+  parseEpisodeInfo(html: string, sourceUrl: string): EpisodePageInfo;
+
+  /**
+   * Find the candidate video sources of an episode page, unranked. The
+   * scraper is passed in for fetching player pages and reading players.
+   */
+  extractVideoSources(html: string, sourceUrl: string, scraper: Scraper): Promise<VideoSource[]>;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { WcofunAdapter } from './wcofun';
+
+const matches = (adapter: WcofunAdapter, url: string) => adapter.matches(new URL(url));
+
+describe('WcofunAdapter.matches', () => {
+  it.each(['https://www.wcofun.net/anime/show', 'https://wcostream.tv/show-episode-1'])('matches %s', (url) => {
+    expect(matches(new WcofunAdapter(), url)).toBe(true);
+  });
+
+  it('matches nothing else without a base URL', () => {
+    expect(matches(new WcofunAdapter(), 'http://localhost:5000/anime/show')).toBe(false);
+  });
+
+  it('matches the whole host of a base URL without a path', () => {
+    const adapter = new WcofunAdapter('http://localhost:5000');
+
+    expect(matches(adapter, 'http://localhost:5000/anime/show')).toBe(true);
+    expect(matches(adapter, 'http://localhost:5001/anime/show')).toBe(false);
+  });
+
+  it.each(['http://localhost:5000/mock-site', 'http://localhost:5000/mock-site/'])('keeps to the path of %s', (baseUrl) => {
+    const adapter = new WcofunAdapter(baseUrl);
+
+    expect(matches(adapter, 'http://localhost:5000/mock-site')).toBe(true);
+    expect(matches(adapter, 'http://localhost:5000/mock-site/anime/show')).toBe(true);
+    expect(matches(adapter, 'http://localhost:5000/anime/show')).toBe(false);
+    expect(matches(adapter, 'http://localhost:5000/mock-site-other/anime/show')).toBe(false);
+    expect(matches(adapter, 'https://www.wcofun.net/anime/show')).toBe(true);
+  });
+});
@@ -0,0 +1,296 @@
+import * as cheerio from 'cheerio';
+import type { InsertSeries, InsertEpisode, VideoSource } from '@shared/schema';
+import type { Scraper } from '../scraper';
+import type { EpisodePageInfo, SiteAdapter, UrlType } from './types';
+
+// wcofun moves between domains, every known mirror is served by this adapter
+const WCOFUN_HOST_PATTERN = /(^|\.)(wcofun|wcostream)\.[a-z]+$/i;
+
+export class WcofunAdapter implements SiteAdapter {
+  name = 'wcofun';
+
+  // Extra site served by this adapter, e.g. a local mock of the site. Only
+  // URLs under its path match, so "http://localhost:5000/mock-site" leaves
+  // the rest of localhost:5000 alone.
+  private baseUrl: URL | null;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = baseUrl ? new URL(baseUrl) : null;
+  }
+
+  /**
+   * Match wcofun.net, its mirror domains and URLs under the base URL override
+   */
+  matches(url: URL): boolean {
+    return WCOFUN_HOST_PATTERN.test(url.hostname) || this.isUnderBaseUrl(url);
+  }
+
+  /**
+   * Whether a URL is on the base URL's host and within its path
+   */
+  private isUnderBaseUrl(url: URL): boolean {
+    if (!this.baseUrl || url.host !== this.baseUrl.host) return false;
+    const basePath = this.baseUrl.pathname.replace(/\/+$/, '');
+    return url.pathname === basePath || url.pathname.startsWith(`${basePath}/`);
+  }
+
+  /**
+   * Determine if the URL is for a series or a single episode
+   */
+  determineUrlType(url: string): UrlType {
+    const normalizedUrl = url.toLowerCase();
+    
+    // WCOFun series URL patterns - not all use /anime/
+    if (
+      normalizedUrl.includes('/anime/') ||
+      normalizedUrl.includes('/category/') ||
+      normalizedUrl.includes('/series/') ||
+      normalizedUrl.includes('/cartoon/') ||
+      // If URL ends with a title and not a specific episode
+      (!normalizedUrl.includes('/episode') && !normalizedUrl.includes('/watch/') && !normalizedUrl.includes('/video/'))
+    ) {
+      return 'series';
+    } else {
+      return 'episode';
+    }
+  }
+
+  /**
+   * Parse series information from HTML
+   */
+  parseSeriesInfo(html: string, sourceUrl: string): InsertSeries {
+    const $ = cheerio.load(html);
+    
+    // Try different selectors for title
+    let title = $('.video-title').text().trim();
+    console.log(`[Scraper] Title from .video-title: "${title}"`);
+    
+    if (!title) {
+      title = $('h1.title').text().trim();
+      console.log(`[Scraper] Title from h1.title: "${title}"`);
+    }
+    
+    if (!title) {
+      title = $('title').text().trim().replace(' | WCO', '').replace('Watch ', '');
+      console.log(`[Scraper] Title from title tag: "${title}"`);
+    }
+    
+    if (!title) {
+      // Extract from URL as last resort
+      const urlParts = sourceUrl.split('/');
+      const lastPart = urlParts[urlParts.length - 1];
+      title = lastPart.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+      console.log(`[Scraper] Title from URL: "${title}"`);
+    }
+    
+    // Get description from the appropriate meta tag or content div
+    let description = $('meta[name="description"]').attr('content') || '';
+    if (!description) {
+      description = $('.content-padding p').text().trim();
+    }
+    
+    if (!description) {
+      description = $('.desc').text().trim();
+    }
+    
+    // Count episodes
+    let episodeElements = $('.listing a');
+    let totalEpisodes = episodeElements.length;
+    
+    // Try alternative episode selectors if the first one returns 0
+    if (totalEpisodes === 0) {
+      episodeElements = $('#catlist-listview a');
+      totalEpisodes = episodeElements.length;
+    }
+    
+    if (totalEpisodes === 0) {
+      episodeElements = $('.cat-eps a');
+      totalEpisodes = episodeElements.length;
+    }
+    
+    if (totalEpisodes === 0) {
+      // Count links that might be episodes
+      totalEpisodes = $('a').filter((i, el) => {
+        const href = $(el).attr('href') || '';
+        return href.includes('/watch/') || href.includes('/video/');
+      }).length;
+    }
+    
+    // Get image URL - try different selectors
+    let imageUrl = $('.img-responsive').attr('src') || '';
+    if (!imageUrl) {
+      imageUrl = $('.thumb img').attr('src') || '';
+    }
+    
+    if (!imageUrl) {
+      imageUrl = $('meta[property="og:image"]').attr('content') || '';
+    }
+    
+    console.log(`[Scraper] Parsed series: title="${title}", description length=${description.length}, episodes=${totalEpisodes}, imageUrl=${imageUrl ? 'exists' : 'not found'}`);
+    
+    return {
+      title,
+      description,
+      totalEpisodes,
+      imageUrl,
+      sourceUrl
+    };
+  }
+
+  /**
+   * Parse episode information from series HTML
+   */
+  parseEpisodeList(html: string, seriesId: number, seriesUrl: string): InsertEpisode[] {
+    const $ = cheerio.load(html);
+    const episodes: InsertEpisode[] = [];
+    
+    // Try different selectors to find episodes list
+    let episodeElements = $('.listing a');
+    console.log(`[Scraper] Found ${episodeElements.length} episodes with .listing a selector`);
+    
+    // If the primary selector doesn't work, try alternatives
+    if (episodeElements.length === 0) {
+      episodeElements = $('#catlist-listview a');
+      console.log(`[Scraper] Found ${episodeElements.length} episodes with #catlist-listview a selector`);
+    }
+    
+    if (episodeElements.length === 0) {
+      episodeElements = $('.cat-eps a');
+      console.log(`[Scraper] Found ${episodeElements.length} episodes with .cat-eps a selector`);
+    }
+    
+    if (episodeElements.length === 0) {
+      // Try a more generic approach - match all wcofun links with episode in the URL or text
+      episodeElements = $('a').filter((i, el) => {
+        const href = $(el).attr('href') || '';
+        const text = $(el).text().trim().toLowerCase();
+        
+        // Look for typical episode indicators
+        return (
+          (this.isSiteLink(href) || href.startsWith('/')) && 
+          (href.includes('episode') || 
+           href.includes('-episode-') || 
+           text.includes('episode') || 
+           (href.includes('dubbed') || href.includes('subbed')))
+        );
+      });
+      console.log(`[Scraper] Found ${episodeElements.length} episodes with generic episode pattern`);
+    }
+    
+    if (episodeElements.length === 0) {
+      // As a last resort, try to find all links that might be episodes
+      // by looking at link patterns common on the site
+      episodeElements = $('a').filter((i, el) => {
+        const href = $(el).attr('href') || '';
+        // For wcofun, most episode links have these patterns:
+        return (
+          this.isSiteLink(href) ||
+          (href.startsWith('/') && 
+            (href.includes('-episode-') || 
+             href.includes('-english-') || 
+             href.includes('dubbed') || 
+             href.includes('subbed')))
+        );
+      });
+      console.log(`[Scraper] Last resort found ${episodeElements.length} possible episode links`);
+    }
+    
+    // Process all found episode links
+    episodeElements.each((index, element) => {
+      const $element = $(element);
+      const title = $element.text().trim();
+      let sourceUrl = $element.attr('href') || '';
+      
+      if (!sourceUrl) return;
+      
+      // Construct the full URL if it's a relative path, on whichever mirror the series came from
+      const fullUrl = new URL(sourceUrl, seriesUrl).toString();
+      
+      // Try to extract episode number and season from title
+      const episodeMatch = title.match(/episode\s*(\d+)/i) || 
+                          sourceUrl.match(/episode[^0-9]*(\d+)/i) ||
+                          sourceUrl.match(/-(\d+)-english/i);
+                          
+      const seasonMatch = title.match(/season\s*(\d+)/i) || 
+                         sourceUrl.match(/season[^0-9]*(\d+)/i);
+      
+      const episodeNumber = episodeMatch ? parseInt(episodeMatch[1]) : index + 1;
+      const season = seasonMatch ? parseInt(seasonMatch[1]) : 1;
+      
+      // Don't add duplicates
+      if (!episodes.some(e => e.sourceUrl === fullUrl)) {
+        episodes.push({
+          seriesId,
+          title: title || `Episode ${episodeNumber}`,
+          episodeNumber,
+          season,
+          duration: '', // This will be determined when downloading
+          sourceUrl: fullUrl,
+          downloadUrl: '',
+        });
+      }
+    });
+    
+    console.log(`[Scraper] Created ${episodes.length} episode objects for series ID ${seriesId}`);
+    return episodes;
+  }
+
+  /**
+   * Parse the title and series link from an episode page
+   */
+  parseEpisodeInfo(html: string, sourceUrl: string): EpisodePageInfo {
+    const $ = cheerio.load(html);
+    const seriesLink = $('.category a').attr('href');
+
+    return {
+      title: $('.video-title').text().trim(),
+      seriesUrl: seriesLink ? new URL(seriesLink, sourceUrl).toString() : null,
+    };
+  }
+
+  /**
+   * Every iframe on an episode page is a player on a potential mirror,
+   * and the page itself can embed a player as well
+   */
+  async extractVideoSources(html: string, sourceUrl: string, scraper: Scraper): Promise<VideoSource[]> {
+    const $ = cheerio.load(html);
+    const sources: VideoSource[] = [];
+    
+    // Get all iframes, every player on the page is a potential mirror
+    const iframes = $('iframe').toArray();
+    console.log(`[Scraper] Found ${iframes.length} iframes on the page`);
+    
+    for (const iframe of iframes) {
+      const iframeSrc = $(iframe).attr('src');
+      if (!iframeSrc) continue;
+      
+      console.log(`[Scraper] Processing iframe with src: ${iframeSrc}`);
+      
+      try {
+        // Need to get the content from the iframe to find the actual video source
+        const iframeHtml = await scraper.getSourceHtml(new URL(iframeSrc, sourceUrl).toString());
+        scraper.collectVideoSources(cheerio.load(iframeHtml), sources, 'iframe');
+      } catch (error) {
+        console.error(`[Scraper] Error parsing iframe ${iframeSrc}:`, error);
+      }
+    }
+    
+    // The main page can embed a player as well
+    console.log(`[Scraper] Checking main page for video sources`);
+    scraper.collectVideoSources($, sources, 'main page');
+    
+    return sources;
+  }
+
+  /**
+   * Whether an absolute link points at this site or one of its mirrors
+   */
+  private isSiteLink(href: string): boolean {
+    if (!/^https?:\/\//i.test(href)) return false;
+    try {
+      return this.matches(new URL(href));
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TokenBucket, parseBandwidth } from './throttle';
+
+describe('parseBandwidth', () => {
+  it.each([
+    ['512', 512 * 1024],
+    ['512k', 512 * 1024],
+    ['2M', 2 * 1024 ** 2],
+    ['1.5g', 1.5 * 1024 ** 3],
+    ['100b', 100],
+    [' 1M ', 1024 ** 2],
+  ])('reads %j as %i bytes per second', (value, rate) => {
+    expect(parseBandwidth(value)).toBe(rate);
+  });
+
+  it.each(['', 'off', 'fast', '08:00,512k'])('reads %j as unlimited', (value) => {
+    expect(parseBandwidth(value)).toBe(0);
+  });
+});
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Take bytes and report how many milliseconds that waited
+   */
+  const timeTake = async (bucket: TokenBucket, bytes: number, signal?: AbortSignal): Promise<number> => {
+    const start = Date.now();
+    const taken = bucket.take(bytes, signal);
+    await vi.runAllTimersAsync();
+    await taken;
+    return Date.now() - start;
+  };
+
+  it('never waits without a rate', async () => {
+    const bucket = new TokenBucket();
+
+    expect(await timeTake(bucket, 10 * 1024 ** 3)).toBe(0);
+  });
+
+  it('lets a second worth of bytes through at once', async () => {
+    const bucket = new TokenBucket(1000);
+
+    expect(await timeTake(bucket, 1000)).toBe(0);
+  });
+
+  it('waits off what is taken beyond that', async () => {
+    const bucket = new TokenBucket(1000);
+
+    await timeTake(bucket, 1000);
+    expect(await timeTake(bucket, 500)).toBe(500);
+    expect(await timeTake(bucket, 2000)).toBe(2000);
+  });
+
+  it('refills at the rate, up to a second worth', async () => {
+    const bucket = new TokenBucket(1000);
+    await timeTake(bucket, 1000);
+
+    vi.advanceTimersByTime(600);
+    expect(await timeTake(bucket, 600)).toBe(0);
+
+    vi.advanceTimersByTime(5000);
+    expect(await timeTake(bucket, 1500)).toBe(500);
+  });
+
+  it('starts over at a new rate', async () => {
+    const bucket = new TokenBucket(1000);
+    await timeTake(bucket, 1000);
+
+    bucket.setRate(100);
+    expect(bucket.getRate()).toBe(100);
+    expect(await timeTake(bucket, 200)).toBe(1000);
+  });
+
+  it('drops the debt of a limit that was lifted and set again', async () => {
+    const bucket = new TokenBucket(1000);
+    const abortController = new AbortController();
+    const taken = bucket.take(60_000, abortController.signal);
+    abortController.abort(new Error('Paused'));
+    await expect(taken).rejects.toThrow('Paused');
+
+    bucket.setRate(0);
+    expect(await timeTake(bucket, 10 * 1024 ** 2)).toBe(0);
+    bucket.setRate(1000);
+    expect(await timeTake(bucket, 1000)).toBe(0);
+    expect(await timeTake(bucket, 500)).toBe(500);
+  });
+
+  it('keeps its state when set to the same rate', async () => {
+    const bucket = new TokenBucket(1000);
+    await timeTake(bucket, 1000);
+
+    bucket.setRate(1000);
+    expect(await timeTake(bucket, 500)).toBe(500);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const bucket = new TokenBucket(1000);
+    await timeTake(bucket, 1000);
+    const abortController = new AbortController();
+
+    const taken = bucket.take(1000, abortController.signal);
+    abortController.abort(new Error('Paused'));
+
+    await expect(taken).rejects.toThrow('Paused');
+  });
+});
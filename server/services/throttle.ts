@@ -0,0 +1,101 @@
+// Bytes per unit of a bandwidth suffix, bare numbers are KiB like rclone's
+const BANDWIDTH_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  m: 1024 ** 2,
+  g: 1024 ** 3,
+  t: 1024 ** 4,
+  p: 1024 ** 5,
+};
+
+/**
+ * Bytes per second of a bandwidth setting like "512k" or "2M", 0 for
+ * unlimited ("" or "off")
+ */
+export function parseBandwidth(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)([bkmgtp]?)$/i);
+  if (!match) return 0;
+
+  const unit = BANDWIDTH_UNITS[(match[2] || 'k').toLowerCase()];
+  return Math.floor(parseFloat(match[1]) * unit);
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting early with the signal's
+ * reason when it aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Token bucket rate limiter. It refills at `rate` bytes per second and holds
+ * up to one second's worth, so short bursts pass and the average stays at
+ * the rate. Taking more than is available puts the bucket in debt and waits
+ * it off, which keeps several readers sharing one bucket fair.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(private rate: number = 0) {
+    this.tokens = rate;
+  }
+
+  /**
+   * Change the rate, 0 lifts the limit. The bucket starts over full at the
+   * new rate: debt run up under the old one, or while unlimited, would
+   * otherwise stall transfers for as long as it takes to pay off.
+   */
+  setRate(rate: number): void {
+    if (rate === this.rate) return;
+
+    this.rate = rate;
+    this.tokens = rate;
+    this.refilledAt = Date.now();
+  }
+
+  /**
+   * Current rate in bytes per second, 0 when unlimited
+   */
+  getRate(): number {
+    return this.rate;
+  }
+
+  /**
+   * Take bytes from the bucket, waiting until they have been refilled when
+   * it runs dry
+   */
+  async take(bytes: number, signal?: AbortSignal): Promise<void> {
+    if (!this.rate) return;
+
+    this.refill();
+    this.tokens -= bytes;
+    if (this.tokens >= 0) return;
+
+    await sleep((-this.tokens / this.rate) * 1000, signal);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (this.rate) {
+      this.tokens = Math.min(this.rate, this.tokens + ((now - this.refilledAt) / 1000) * this.rate);
+    }
+    this.refilledAt = now;
+  }
+}
@@ -0,0 +1,453 @@
+import fs from "fs";
+import path from "path";
+import { createClient, type Client } from "@libsql/client";
+import { drizzle } from "drizzle-orm/libsql";
+import { asc, eq } from "drizzle-orm";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import type {
+  VideoSource,
+  User,
+  InsertUser,
+  Series,
+  InsertSeries,
+  Episode,
+  InsertEpisode,
+  Download,
+  InsertDownload,
+  UploadDestination,
+  InsertUploadDestination,
+  UploadRule,
+  InsertUploadRule,
+  Upload,
+  InsertUpload,
+  Settings,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// SQLite mirrors of the tables in shared/schema.ts. Timestamps are stored as
+// unix epochs and surface as Date objects, so rows match the shared types.
+const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
+
+const series = sqliteTable("series", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  description: text("description"),
+  totalEpisodes: integer("total_episodes"),
+  imageUrl: text("image_url"),
+  sourceUrl: text("source_url").notNull().unique(),
+  autoUpload: integer("auto_upload", { mode: "boolean" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+const episodes = sqliteTable("episodes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  seriesId: integer("series_id").notNull(),
+  title: text("title").notNull(),
+  episodeNumber: integer("episode_number"),
+  season: integer("season"),
+  duration: text("duration"),
+  sourceUrl: text("source_url").notNull().unique(),
+  downloadUrl: text("download_url"),
+  downloadUrlResolvedAt: integer("download_url_resolved_at", { mode: "timestamp" }),
+  sources: text("sources", { mode: "json" }).$type<VideoSource[]>(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+const downloads = sqliteTable("downloads", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  episodeId: integer("episode_id").notNull(),
+  status: text("status").notNull().default("queued"),
+  progress: integer("progress").default(0),
+  totalSize: integer("total_size"),
+  downloadedSize: integer("downloaded_size").default(0),
+  speed: integer("speed"),
+  filePath: text("file_path"),
+  error: text("error"),
+  quality: text("quality"),
+  sourceIndex: integer("source_index").default(0),
+  attempts: integer("attempts").default(0),
+  lastError: text("last_error"),
+  nextRetryAt: integer("next_retry_at", { mode: "timestamp" }),
+  startedAt: integer("started_at", { mode: "timestamp" }),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  rateLimit: integer("rate_limit"),
+});
+
+const uploadDestinations = sqliteTable("upload_destinations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  remote: text("remote").notNull(),
+  pathTemplate: text("path_template").notNull().default(""),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+const uploadRules = sqliteTable("upload_rules", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  destinationId: integer("destination_id").notNull(),
+  seriesId: integer("series_id"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+const uploads = sqliteTable("uploads", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  downloadId: integer("download_id").notNull(),
+  destinationId: integer("destination_id"),
+  remote: text("remote").notNull(),
+  path: text("path").notNull(),
+  status: text("status").notNull().default("queued"),
+  bytes: integer("bytes", { mode: "number" }).default(0), // 64-bit, like the bigint columns in PostgreSQL
+  totalBytes: integer("total_bytes", { mode: "number" }),
+  error: text("error"),
+  attempts: integer("attempts").default(0),
+  verified: integer("verified", { mode: "boolean" }),
+  localRemoved: integer("local_removed", { mode: "boolean" }).default(false),
+  startedAt: integer("started_at", { mode: "timestamp" }),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+const settings = sqliteTable("settings", {
+  id: integer("id").primaryKey(),
+  data: text("data", { mode: "json" }).$type<Settings>().notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+// Column DDL per table. Missing columns are added to existing database files
+// on startup, so new fields only need to be appended here.
+const tableColumns: Record<string, string[]> = {
+  users: [
+    "id INTEGER PRIMARY KEY AUTOINCREMENT",
+    "username TEXT NOT NULL UNIQUE",
+    "password TEXT NOT NULL",
+  ],
+  series: [
+    "id INTEGER PRIMARY KEY AUTOINCREMENT",
+    "title TEXT NOT NULL",
+    "description TEXT",
+    "total_episodes INTEGER",
+    "image_url TEXT",
+    "source_url TEXT NOT NULL UNIQUE",
+    "created_at INTEGER",
+    "auto_upload INTEGER",
+  ],
+  episodes: [
+    "id INTEGER PRIMARY KEY AUTOINCREMENT",
+    "series_id INTEGER NOT NULL",
+    "title TEXT NOT NULL",
+    "episode_number INTEGER",
+    "season INTEGER",
+    "duration TEXT",
+    "source_url TEXT NOT NULL UNIQUE",
+    "download_url TEXT",
+    "download_url_resolved_at INTEGER",
+    "sources TEXT",
+    "created_at INTEGER",
+  ],
+  downloads: [
+    "id INTEGER PRIMARY KEY AUTOINCREMENT",
+    "episode_id INTEGER NOT NULL",
+    "status TEXT NOT NULL DEFAULT 'queued'",
+    "progress INTEGER DEFAULT 0",
+    "total_size INTEGER",
+    "downloaded_size INTEGER DEFAULT 0",
+    "speed INTEGER",
+    "file_path TEXT",
+    "error TEXT",
+    "quality TEXT",
+    "source_index INTEGER DEFAULT 0",
+    "attempts INTEGER DEFAULT 0",
+    "last_error TEXT",
+    "next_retry_at INTEGER",
+    "started_at INTEGER",
+    "completed_at INTEGER",
+    "created_at INTEGER",
+    "rate_limit INTEGER",
+  ],
+  uploads: [
+    "id INTEGER PRIMARY KEY AUTOINCREMENT",
+    "download_id INTEGER NOT NULL",
+    "remote TEXT NOT NULL",
+    "path TEXT NOT NULL",
+    "status TEXT NOT NULL DEFAULT 'queued'",
+    "bytes INTEGER DEFAULT 0",
+    "total_bytes INTEGER",
+    "error TEXT",
+    "attempts INTEGER DEFAULT 0",
+    "started_at INTEGER",
+    "completed_at INTEGER",
+    "created_at INTEGER",
+    "verified INTEGER",
+    "local_removed INTEGER DEFAULT 0",
+    "destination_id INTEGER",
+  ],
+  upload_destinations: [
+    "id INTEGER PRIMARY KEY AUTOINCREMENT",
+    "name TEXT NOT NULL",
+    "remote TEXT NOT NULL",
+    "path_template TEXT NOT NULL DEFAULT ''",
+    "enabled INTEGER NOT NULL DEFAULT 1",
+    "created_at INTEGER",
+  ],
+  upload_rules: [
+    "id INTEGER PRIMARY KEY AUTOINCREMENT",
+    "destination_id INTEGER NOT NULL",
+    "series_id INTEGER",
+    "created_at INTEGER",
+  ],
+  settings: [
+    "id INTEGER PRIMARY KEY",
+    "data TEXT NOT NULL",
+    "updated_at INTEGER",
+  ],
+};
+
+export class SqliteStorage implements IStorage {
+  private client: Client;
+  private db;
+
+  constructor(filePath: string) {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.client = createClient({ url: `file:${filePath}` });
+    this.db = drizzle(this.client);
+  }
+
+  /**
+   * Create missing tables and columns
+   */
+  async init(): Promise<void> {
+    for (const [table, columns] of Object.entries(tableColumns)) {
+      await this.client.execute(`CREATE TABLE IF NOT EXISTS ${table} (${columns.join(", ")})`);
+
+      const info = await this.client.execute(`PRAGMA table_info(${table})`);
+      const existing = new Set(info.rows.map((row) => String(row.name)));
+
+      for (const column of columns) {
+        const name = column.split(" ")[0];
+        if (!existing.has(name)) {
+          // SQLite can't add UNIQUE columns to an existing table
+          await this.client.execute(`ALTER TABLE ${table} ADD COLUMN ${column.replace(" UNIQUE", "")}`);
+        }
+      }
+    }
+  }
+
+  // User methods implementation
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Series methods implementation
+  async getSeries(id: number): Promise<Series | undefined> {
+    const [result] = await this.db.select().from(series).where(eq(series.id, id));
+    return result;
+  }
+
+  async getSeriesBySourceUrl(url: string): Promise<Series | undefined> {
+    const [result] = await this.db.select().from(series).where(eq(series.sourceUrl, url));
+    return result;
+  }
+
+  async getAllSeries(): Promise<Series[]> {
+    return this.db.select().from(series).orderBy(asc(series.id));
+  }
+
+  async createSeries(insertSeries: InsertSeries): Promise<Series> {
+    const [result] = await this.db.insert(series).values(insertSeries).returning();
+    return result;
+  }
+
+  async updateSeries(id: number, data: Partial<InsertSeries>): Promise<Series | undefined> {
+    const [result] = await this.db.update(series).set(data).where(eq(series.id, id)).returning();
+    return result;
+  }
+
+  async deleteSeries(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(series).where(eq(series.id, id)).returning({ id: series.id });
+    return deleted.length > 0;
+  }
+
+  // Episode methods implementation
+  async getEpisode(id: number): Promise<Episode | undefined> {
+    const [episode] = await this.db.select().from(episodes).where(eq(episodes.id, id));
+    return episode;
+  }
+
+  async getEpisodesBySeriesId(seriesId: number): Promise<Episode[]> {
+    return this.db.select().from(episodes)
+      .where(eq(episodes.seriesId, seriesId))
+      .orderBy(asc(episodes.id));
+  }
+
+  async getEpisodeBySourceUrl(url: string): Promise<Episode | undefined> {
+    const [episode] = await this.db.select().from(episodes).where(eq(episodes.sourceUrl, url));
+    return episode;
+  }
+
+  async createEpisode(insertEpisode: InsertEpisode): Promise<Episode> {
+    const [episode] = await this.db.insert(episodes).values(insertEpisode).returning();
+    return episode;
+  }
+
+  async updateEpisode(id: number, data: Partial<Episode>): Promise<Episode | undefined> {
+    const [episode] = await this.db.update(episodes).set(data).where(eq(episodes.id, id)).returning();
+    return episode;
+  }
+
+  async deleteEpisode(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(episodes).where(eq(episodes.id, id)).returning({ id: episodes.id });
+    return deleted.length > 0;
+  }
+
+  // Download methods implementation
+  async getDownload(id: number): Promise<Download | undefined> {
+    const [download] = await this.db.select().from(downloads).where(eq(downloads.id, id));
+    return download;
+  }
+
+  async getDownloadsByStatus(status: string): Promise<Download[]> {
+    return this.db.select().from(downloads)
+      .where(eq(downloads.status, status))
+      .orderBy(asc(downloads.id));
+  }
+
+  async getAllDownloads(): Promise<Download[]> {
+    return this.db.select().from(downloads).orderBy(asc(downloads.id));
+  }
+
+  async createDownload(insertDownload: InsertDownload): Promise<Download> {
+    const [download] = await this.db.insert(downloads).values({
+      episodeId: insertDownload.episodeId,
+      status: "queued",
+      filePath: insertDownload.filePath || null,
+      quality: insertDownload.quality || null,
+    }).returning();
+    return download;
+  }
+
+  async updateDownload(id: number, data: Partial<Download>): Promise<Download | undefined> {
+    const [download] = await this.db.update(downloads).set(data).where(eq(downloads.id, id)).returning();
+    return download;
+  }
+
+  async deleteDownload(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(downloads).where(eq(downloads.id, id)).returning({ id: downloads.id });
+    return deleted.length > 0;
+  }
+
+  // Upload methods implementation
+  async getUpload(id: number): Promise<Upload | undefined> {
+    const [upload] = await this.db.select().from(uploads).where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async getUploadsByStatus(status: string): Promise<Upload[]> {
+    return this.db.select().from(uploads)
+      .where(eq(uploads.status, status))
+      .orderBy(asc(uploads.id));
+  }
+
+  async getUploadsByDownloadId(downloadId: number): Promise<Upload[]> {
+    return this.db.select().from(uploads)
+      .where(eq(uploads.downloadId, downloadId))
+      .orderBy(asc(uploads.id));
+  }
+
+  async getAllUploads(): Promise<Upload[]> {
+    return this.db.select().from(uploads).orderBy(asc(uploads.id));
+  }
+
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const [upload] = await this.db.insert(uploads).values({
+      downloadId: insertUpload.downloadId,
+      destinationId: insertUpload.destinationId ?? null,
+      remote: insertUpload.remote,
+      path: insertUpload.path,
+      status: insertUpload.status || "queued",
+    }).returning();
+    return upload;
+  }
+
+  async updateUpload(id: number, data: Partial<Upload>): Promise<Upload | undefined> {
+    const [upload] = await this.db.update(uploads).set(data).where(eq(uploads.id, id)).returning();
+    return upload;
+  }
+
+  // Upload destination methods implementation
+  async getUploadDestination(id: number): Promise<UploadDestination | undefined> {
+    const [destination] = await this.db.select().from(uploadDestinations).where(eq(uploadDestinations.id, id));
+    return destination;
+  }
+
+  async getAllUploadDestinations(): Promise<UploadDestination[]> {
+    return this.db.select().from(uploadDestinations).orderBy(asc(uploadDestinations.id));
+  }
+
+  async createUploadDestination(insertDestination: InsertUploadDestination): Promise<UploadDestination> {
+    const [destination] = await this.db.insert(uploadDestinations).values(insertDestination).returning();
+    return destination;
+  }
+
+  async updateUploadDestination(id: number, data: Partial<InsertUploadDestination>): Promise<UploadDestination | undefined> {
+    const [destination] = await this.db.update(uploadDestinations).set(data).where(eq(uploadDestinations.id, id)).returning();
+    return destination;
+  }
+
+  async deleteUploadDestination(id: number): Promise<boolean> {
+    await this.db.delete(uploadRules).where(eq(uploadRules.destinationId, id));
+    const deleted = await this.db.delete(uploadDestinations).where(eq(uploadDestinations.id, id)).returning({ id: uploadDestinations.id });
+    return deleted.length > 0;
+  }
+
+  // Upload rule methods implementation
+  async getAllUploadRules(): Promise<UploadRule[]> {
+    return this.db.select().from(uploadRules).orderBy(asc(uploadRules.id));
+  }
+
+  async createUploadRule(insertRule: InsertUploadRule): Promise<UploadRule> {
+    const [rule] = await this.db.insert(uploadRules).values({
+      destinationId: insertRule.destinationId,
+      seriesId: insertRule.seriesId ?? null,
+    }).returning();
+    return rule;
+  }
+
+  async deleteUploadRule(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(uploadRules).where(eq(uploadRules.id, id)).returning({ id: uploadRules.id });
+    return deleted.length > 0;
+  }
+
+  // Settings methods implementation
+  async getSettings(): Promise<Settings | undefined> {
+    const [row] = await this.db.select().from(settings).where(eq(settings.id, 1));
+    return row?.data;
+  }
+
+  async saveSettings(data: Settings): Promise<Settings> {
+    const [row] = await this.db.insert(settings)
+      .values({ id: 1, data })
+      .onConflictDoUpdate({ target: settings.id, set: { data, updatedAt: new Date() } })
+      .returning();
+    return row.data;
+  }
+}
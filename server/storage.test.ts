@@ -0,0 +1,212 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createRequire } from 'module';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import * as schema from '@shared/schema';
+import { DrizzleStorage, IStorage, MemStorage } from './storage';
+import { SqliteStorage } from './sqlite-storage';
+
+const tempDirs: string[] = [];
+
+// PGlite is PostgreSQL compiled to WebAssembly, running in process. It is
+// slow to start, so one instance is shared and its tables recreated per test.
+let pglite: PGlite | undefined;
+
+afterAll(async () => {
+  tempDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+  await pglite?.close();
+});
+
+/**
+ * PostgreSQL tables as drizzle-kit would push them from the schema
+ */
+async function postgresSchemaSql(): Promise<string> {
+  // drizzle-kit's API only loads as CommonJS
+  const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api');
+  const statements: string[] = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  return statements.join('\n');
+}
+
+// Every backend gets a fresh, empty store per test
+const backends: Array<[string, () => Promise<IStorage>]> = [
+  ['MemStorage', async () => new MemStorage()],
+  ['SqliteStorage', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+    tempDirs.push(dir);
+    return new SqliteStorage(path.join(dir, 'test.db'));
+  }],
+  ['DrizzleStorage', async () => {
+    pglite ??= new PGlite();
+    await pglite.exec(`DROP SCHEMA public CASCADE; CREATE SCHEMA public; ${await postgresSchemaSql()}`);
+    return new DrizzleStorage(drizzle(pglite, { schema }));
+  }],
+];
+
+describe.each(backends)('%s', (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await createStorage();
+    await storage.init();
+  });
+
+  const createSeries = (sourceUrl = 'https://www.wcofun.net/anime/example-show') =>
+    storage.createSeries({ title: 'Example Show', description: 'A show', totalEpisodes: 12, sourceUrl });
+
+  describe('series', () => {
+    it('creates, reads, updates and deletes series', async () => {
+      const created = await createSeries();
+      expect(created).toMatchObject({
+        title: 'Example Show',
+        description: 'A show',
+        totalEpisodes: 12,
+        sourceUrl: 'https://www.wcofun.net/anime/example-show',
+        autoUpload: null,
+      });
+      expect(created.createdAt).toBeInstanceOf(Date);
+
+      expect(await storage.getSeries(created.id)).toEqual(created);
+      expect(await storage.getSeriesBySourceUrl(created.sourceUrl)).toEqual(created);
+      expect(await storage.getSeriesBySourceUrl('https://www.wcofun.net/anime/other')).toBeUndefined();
+
+      const updated = await storage.updateSeries(created.id, { title: 'Renamed', autoUpload: true });
+      expect(updated).toMatchObject({ id: created.id, title: 'Renamed', autoUpload: true, sourceUrl: created.sourceUrl });
+      expect(await storage.getSeries(created.id)).toEqual(updated);
+
+      expect(await storage.deleteSeries(created.id)).toBe(true);
+      expect(await storage.getSeries(created.id)).toBeUndefined();
+      expect(await storage.deleteSeries(created.id)).toBe(false);
+      expect(await storage.updateSeries(created.id, { title: 'Gone' })).toBeUndefined();
+    });
+
+    it('lists series oldest first', async () => {
+      const first = await createSeries('https://www.wcofun.net/anime/first');
+      const second = await createSeries('https://www.wcofun.net/anime/second');
+
+      expect((await storage.getAllSeries()).map(series => series.id)).toEqual([first.id, second.id]);
+    });
+
+    it('refuses a second series with the same source URL', async () => {
+      const existing = await createSeries();
+      await expect(createSeries()).rejects.toThrow();
+
+      const other = await createSeries('https://www.wcofun.net/anime/other');
+      await expect(storage.updateSeries(other.id, { sourceUrl: existing.sourceUrl })).rejects.toThrow();
+      expect(await storage.getAllSeries()).toHaveLength(2);
+    });
+  });
+
+  describe('episodes', () => {
+    const sources = [{ url: 'https://cdn.example.com/ep1.mp4', host: 'cdn.example.com', quality: '720p', container: 'mp4' }];
+
+    it('creates, reads, updates and deletes episodes', async () => {
+      const series = await createSeries();
+      const created = await storage.createEpisode({
+        seriesId: series.id,
+        title: 'Episode 1',
+        episodeNumber: 1,
+        season: 1,
+        sourceUrl: 'https://www.wcofun.net/example-show-episode-1',
+        sources,
+      });
+      expect(created).toMatchObject({ seriesId: series.id, title: 'Episode 1', episodeNumber: 1, season: 1, sources });
+
+      expect(await storage.getEpisode(created.id)).toEqual(created);
+      expect(await storage.getEpisodeBySourceUrl(created.sourceUrl)).toEqual(created);
+      expect(await storage.getEpisodesBySeriesId(series.id)).toEqual([created]);
+      expect(await storage.getEpisodesBySeriesId(series.id + 1)).toEqual([]);
+
+      const resolvedAt = new Date('2025-01-01T12:00:00Z');
+      const updated = await storage.updateEpisode(created.id, { downloadUrl: 'https://cdn.example.com/ep1.mp4', downloadUrlResolvedAt: resolvedAt });
+      expect(updated).toMatchObject({ downloadUrl: 'https://cdn.example.com/ep1.mp4', downloadUrlResolvedAt: resolvedAt });
+
+      expect(await storage.deleteEpisode(created.id)).toBe(true);
+      expect(await storage.getEpisode(created.id)).toBeUndefined();
+      expect(await storage.deleteEpisode(created.id)).toBe(false);
+    });
+
+    it('refuses a second episode with the same source URL', async () => {
+      const series = await createSeries();
+      const episode = { seriesId: series.id, title: 'Episode 1', sourceUrl: 'https://www.wcofun.net/example-show-episode-1' };
+
+      await storage.createEpisode(episode);
+      await expect(storage.createEpisode({ ...episode, title: 'Episode 1 again' })).rejects.toThrow();
+      expect(await storage.getEpisodesBySeriesId(series.id)).toHaveLength(1);
+    });
+  });
+
+  describe('downloads and uploads', () => {
+    it('tracks a download and its uploads by status', async () => {
+      const download = await storage.createDownload({ episodeId: 1, quality: '720p' });
+      expect(download).toMatchObject({ episodeId: 1, status: 'queued', progress: 0, quality: '720p', rateLimit: null });
+
+      const completed = await storage.updateDownload(download.id, { status: 'completed', filePath: '/downloads/ep1.mp4', completedAt: new Date() });
+      expect(completed).toMatchObject({ status: 'completed', filePath: '/downloads/ep1.mp4' });
+      expect(await storage.getDownloadsByStatus('completed')).toEqual([completed]);
+      expect(await storage.getDownloadsByStatus('queued')).toEqual([]);
+      expect(await storage.getAllDownloads()).toEqual([completed]);
+
+      const upload = await storage.createUpload({ downloadId: download.id, remote: 'gdrive:', path: 'anime/ep1.mp4', status: 'queued' });
+      expect(upload).toMatchObject({ downloadId: download.id, destinationId: null, status: 'queued', bytes: 0 });
+
+      const uploaded = await storage.updateUpload(upload.id, { status: 'uploaded', verified: true });
+      expect(await storage.getUpload(upload.id)).toEqual(uploaded);
+      expect(await storage.getUploadsByDownloadId(download.id)).toEqual([uploaded]);
+      expect(await storage.getUploadsByStatus('uploaded')).toEqual([uploaded]);
+      expect(await storage.getAllUploads()).toEqual([uploaded]);
+
+      expect(await storage.deleteDownload(download.id)).toBe(true);
+      expect(await storage.getDownload(download.id)).toBeUndefined();
+    });
+
+    it('keeps upload sizes past 2 GiB', async () => {
+      const totalBytes = 5 * 1024 ** 3;
+      const upload = await storage.createUpload({ downloadId: 1, remote: 'gdrive:', path: 'anime/batch.mkv', status: 'uploading' });
+
+      await storage.updateUpload(upload.id, { bytes: totalBytes - 1, totalBytes });
+
+      expect(await storage.getUpload(upload.id)).toMatchObject({ bytes: totalBytes - 1, totalBytes });
+    });
+  });
+
+  describe('upload destinations', () => {
+    it('deletes the rules of a deleted destination', async () => {
+      const series = await createSeries();
+      const destination = await storage.createUploadDestination({ name: 'Drive', remote: 'gdrive', pathTemplate: 'anime/{series}' });
+      expect(destination).toMatchObject({ name: 'Drive', remote: 'gdrive', pathTemplate: 'anime/{series}', enabled: true });
+
+      const disabled = await storage.updateUploadDestination(destination.id, { enabled: false });
+      expect(disabled?.enabled).toBe(false);
+
+      const rule = await storage.createUploadRule({ destinationId: destination.id, seriesId: series.id });
+      expect(await storage.getAllUploadRules()).toEqual([rule]);
+
+      expect(await storage.deleteUploadDestination(destination.id)).toBe(true);
+      expect(await storage.getUploadDestination(destination.id)).toBeUndefined();
+      expect(await storage.getAllUploadRules()).toEqual([]);
+    });
+  });
+
+  describe('settings and users', () => {
+    it('stores settings once they are saved', async () => {
+      expect(await storage.getSettings()).toBeUndefined();
+
+      const settings = schema.settingsSchema.parse({ maxConcurrentDownloads: 3 });
+      await storage.saveSettings(settings);
+      await storage.saveSettings({ ...settings, autoUpload: true });
+
+      expect(await storage.getSettings()).toEqual({ ...settings, autoUpload: true });
+    });
+
+    it('finds users by name', async () => {
+      const user = await storage.createUser({ username: 'admin', password: 'hash' });
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername('admin')).toEqual(user);
+      expect(await storage.getUserByUsername('nobody')).toBeUndefined();
+    });
+  });
+});
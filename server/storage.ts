@@ -3,6 +3,10 @@ import {
   series,
   episodes,
   downloads,
+  uploadDestinations,
+  uploadRules,
+  uploads,
+  settings,
   type User,
   type InsertUser,
   type Series,
@@ -11,10 +15,24 @@ import {
   type InsertEpisode,
   type Download,
   type InsertDownload,
+  type UploadDestination,
+  type InsertUploadDestination,
+  type UploadRule,
+  type InsertUploadRule,
+  type Upload,
+  type InsertUpload,
+  type Settings,
 } from "@shared/schema";
+import path from "path";
+import { asc, eq } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { SqliteStorage } from "./sqlite-storage";
 
 // CRUD interface for our application
 export interface IStorage {
+  // Prepare the backing store (create tables, run migrations) before first use
+  init(): Promise<void>;
+
   // User methods (keeping from original)
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -43,6 +61,30 @@ export interface IStorage {
   createDownload(download: InsertDownload): Promise<Download>;
   updateDownload(id: number, data: Partial<Download>): Promise<Download | undefined>;
   deleteDownload(id: number): Promise<boolean>;
+
+  // Upload methods
+  getUpload(id: number): Promise<Upload | undefined>;
+  getUploadsByStatus(status: string): Promise<Upload[]>;
+  getUploadsByDownloadId(downloadId: number): Promise<Upload[]>;
+  getAllUploads(): Promise<Upload[]>;
+  createUpload(upload: InsertUpload): Promise<Upload>;
+  updateUpload(id: number, data: Partial<Upload>): Promise<Upload | undefined>;
+
+  // Upload destination methods, deleting a destination deletes its rules
+  getUploadDestination(id: number): Promise<UploadDestination | undefined>;
+  getAllUploadDestinations(): Promise<UploadDestination[]>;
+  createUploadDestination(destination: InsertUploadDestination): Promise<UploadDestination>;
+  updateUploadDestination(id: number, data: Partial<InsertUploadDestination>): Promise<UploadDestination | undefined>;
+  deleteUploadDestination(id: number): Promise<boolean>;
+
+  // Upload rule methods
+  getAllUploadRules(): Promise<UploadRule[]>;
+  createUploadRule(rule: InsertUploadRule): Promise<UploadRule>;
+  deleteUploadRule(id: number): Promise<boolean>;
+
+  // Settings methods, undefined until settings are first saved
+  getSettings(): Promise<Settings | undefined>;
+  saveSettings(settings: Settings): Promise<Settings>;
 }
 
 export class MemStorage implements IStorage {
@@ -50,25 +92,40 @@ export class MemStorage implements IStorage {
   private seriesMap: Map<number, Series>;
   private episodesMap: Map<number, Episode>;
   private downloadsMap: Map<number, Download>;
+  private uploadsMap: Map<number, Upload>;
+  private uploadDestinationsMap: Map<number, UploadDestination>;
+  private uploadRulesMap: Map<number, UploadRule>;
+  private settings: Settings | undefined;
   
   // IDs for auto-increment
   userCurrentId: number;
   seriesCurrentId: number;
   episodeCurrentId: number;
   downloadCurrentId: number;
+  uploadCurrentId: number;
+  uploadDestinationCurrentId: number;
+  uploadRuleCurrentId: number;
 
   constructor() {
     this.users = new Map();
     this.seriesMap = new Map();
     this.episodesMap = new Map();
     this.downloadsMap = new Map();
+    this.uploadsMap = new Map();
+    this.uploadDestinationsMap = new Map();
+    this.uploadRulesMap = new Map();
     
     this.userCurrentId = 1;
     this.seriesCurrentId = 1;
     this.episodeCurrentId = 1;
     this.downloadCurrentId = 1;
+    this.uploadCurrentId = 1;
+    this.uploadDestinationCurrentId = 1;
+    this.uploadRuleCurrentId = 1;
   }
 
+  async init(): Promise<void> {}
+
   // User methods implementation
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -103,6 +160,7 @@ export class MemStorage implements IStorage {
   }
 
   async createSeries(insertSeries: InsertSeries): Promise<Series> {
+    this.assertUniqueSourceUrl(this.seriesMap, insertSeries.sourceUrl);
     const id = this.seriesCurrentId++;
     const now = new Date();
     const series: Series = { 
@@ -112,6 +170,7 @@ export class MemStorage implements IStorage {
       totalEpisodes: insertSeries.totalEpisodes || null,
       imageUrl: insertSeries.imageUrl || null,
       sourceUrl: insertSeries.sourceUrl,
+      autoUpload: insertSeries.autoUpload ?? null,
       createdAt: now
     };
     this.seriesMap.set(id, series);
@@ -121,6 +180,9 @@ export class MemStorage implements IStorage {
   async updateSeries(id: number, data: Partial<InsertSeries>): Promise<Series | undefined> {
     const series = this.seriesMap.get(id);
     if (!series) return undefined;
+    if (data.sourceUrl !== undefined) {
+      this.assertUniqueSourceUrl(this.seriesMap, data.sourceUrl, id);
+    }
     
     const updatedSeries: Series = { 
       ...series,
@@ -128,7 +190,8 @@ export class MemStorage implements IStorage {
       description: data.description !== undefined ? (data.description || null) : series.description,
       totalEpisodes: data.totalEpisodes !== undefined ? (data.totalEpisodes || null) : series.totalEpisodes,
       imageUrl: data.imageUrl !== undefined ? (data.imageUrl || null) : series.imageUrl,
-      sourceUrl: data.sourceUrl !== undefined ? data.sourceUrl : series.sourceUrl
+      sourceUrl: data.sourceUrl !== undefined ? data.sourceUrl : series.sourceUrl,
+      autoUpload: data.autoUpload !== undefined ? data.autoUpload : series.autoUpload
     };
     
     this.seriesMap.set(id, updatedSeries);
@@ -157,6 +220,7 @@ export class MemStorage implements IStorage {
   }
 
   async createEpisode(insertEpisode: InsertEpisode): Promise<Episode> {
+    this.assertUniqueSourceUrl(this.episodesMap, insertEpisode.sourceUrl);
     const id = this.episodeCurrentId++;
     const now = new Date();
     const episode: Episode = { 
@@ -168,6 +232,8 @@ export class MemStorage implements IStorage {
       season: insertEpisode.season || null,
       duration: insertEpisode.duration || null,
       downloadUrl: insertEpisode.downloadUrl || null,
+      downloadUrlResolvedAt: insertEpisode.downloadUrlResolvedAt || null,
+      sources: insertEpisode.sources || null,
       createdAt: now
     };
     this.episodesMap.set(id, episode);
@@ -177,6 +243,9 @@ export class MemStorage implements IStorage {
   async updateEpisode(id: number, data: Partial<Episode>): Promise<Episode | undefined> {
     const episode = this.episodesMap.get(id);
     if (!episode) return undefined;
+    if (data.sourceUrl !== undefined) {
+      this.assertUniqueSourceUrl(this.episodesMap, data.sourceUrl, id);
+    }
     
     const updatedEpisode = { ...episode, ...data };
     this.episodesMap.set(id, updatedEpisode);
@@ -216,9 +285,15 @@ export class MemStorage implements IStorage {
       speed: null,
       filePath: insertDownload.filePath || null,
       error: null,
+      quality: insertDownload.quality || null,
+      sourceIndex: 0,
+      attempts: 0,
+      lastError: null,
+      nextRetryAt: null,
       startedAt: null,
       completedAt: null,
-      createdAt: now
+      createdAt: now,
+      rateLimit: insertDownload.rateLimit ?? null
     };
     this.downloadsMap.set(id, download);
     return download;
@@ -237,6 +312,379 @@ export class MemStorage implements IStorage {
   async deleteDownload(id: number): Promise<boolean> {
     return this.downloadsMap.delete(id);
   }
+
+  // Upload methods implementation
+  async getUpload(id: number): Promise<Upload | undefined> {
+    return this.uploadsMap.get(id);
+  }
+
+  async getUploadsByStatus(status: string): Promise<Upload[]> {
+    return Array.from(this.uploadsMap.values()).filter(
+      (upload) => upload.status === status,
+    );
+  }
+
+  async getUploadsByDownloadId(downloadId: number): Promise<Upload[]> {
+    return Array.from(this.uploadsMap.values()).filter(
+      (upload) => upload.downloadId === downloadId,
+    );
+  }
+
+  async getAllUploads(): Promise<Upload[]> {
+    return Array.from(this.uploadsMap.values());
+  }
+
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const id = this.uploadCurrentId++;
+    const upload: Upload = {
+      id,
+      downloadId: insertUpload.downloadId,
+      destinationId: insertUpload.destinationId ?? null,
+      remote: insertUpload.remote,
+      path: insertUpload.path,
+      status: insertUpload.status || "queued",
+      bytes: 0,
+      totalBytes: null,
+      error: null,
+      attempts: 0,
+      verified: null,
+      localRemoved: false,
+      startedAt: null,
+      completedAt: null,
+      createdAt: new Date()
+    };
+    this.uploadsMap.set(id, upload);
+    return upload;
+  }
+
+  async updateUpload(id: number, data: Partial<Upload>): Promise<Upload | undefined> {
+    const upload = this.uploadsMap.get(id);
+    if (!upload) return undefined;
+
+    const updatedUpload = { ...upload, ...data };
+    this.uploadsMap.set(id, updatedUpload);
+    return updatedUpload;
+  }
+
+  // Upload destination methods implementation
+  async getUploadDestination(id: number): Promise<UploadDestination | undefined> {
+    return this.uploadDestinationsMap.get(id);
+  }
+
+  async getAllUploadDestinations(): Promise<UploadDestination[]> {
+    return Array.from(this.uploadDestinationsMap.values());
+  }
+
+  async createUploadDestination(insertDestination: InsertUploadDestination): Promise<UploadDestination> {
+    const id = this.uploadDestinationCurrentId++;
+    const destination: UploadDestination = {
+      id,
+      name: insertDestination.name,
+      remote: insertDestination.remote,
+      pathTemplate: insertDestination.pathTemplate ?? "",
+      enabled: insertDestination.enabled ?? true,
+      createdAt: new Date()
+    };
+    this.uploadDestinationsMap.set(id, destination);
+    return destination;
+  }
+
+  async updateUploadDestination(id: number, data: Partial<InsertUploadDestination>): Promise<UploadDestination | undefined> {
+    const destination = this.uploadDestinationsMap.get(id);
+    if (!destination) return undefined;
+
+    const updatedDestination = { ...destination, ...data };
+    this.uploadDestinationsMap.set(id, updatedDestination);
+    return updatedDestination;
+  }
+
+  async deleteUploadDestination(id: number): Promise<boolean> {
+    Array.from(this.uploadRulesMap.values())
+      .filter((rule) => rule.destinationId === id)
+      .forEach((rule) => this.uploadRulesMap.delete(rule.id));
+    return this.uploadDestinationsMap.delete(id);
+  }
+
+  // Upload rule methods implementation
+  async getAllUploadRules(): Promise<UploadRule[]> {
+    return Array.from(this.uploadRulesMap.values());
+  }
+
+  async createUploadRule(insertRule: InsertUploadRule): Promise<UploadRule> {
+    const id = this.uploadRuleCurrentId++;
+    const rule: UploadRule = {
+      id,
+      destinationId: insertRule.destinationId,
+      seriesId: insertRule.seriesId ?? null,
+      createdAt: new Date()
+    };
+    this.uploadRulesMap.set(id, rule);
+    return rule;
+  }
+
+  async deleteUploadRule(id: number): Promise<boolean> {
+    return this.uploadRulesMap.delete(id);
+  }
+
+  // Settings methods implementation
+  async getSettings(): Promise<Settings | undefined> {
+    return this.settings;
+  }
+
+  async saveSettings(data: Settings): Promise<Settings> {
+    this.settings = { ...data };
+    return this.settings;
+  }
+
+  // Source URLs are unique, like the database backends' constraints
+  private assertUniqueSourceUrl(rows: Map<number, { id: number; sourceUrl: string }>, sourceUrl: string, id?: number): void {
+    const taken = Array.from(rows.values()).some((row) => row.sourceUrl === sourceUrl && row.id !== id);
+    if (taken) {
+      throw new Error(`Source URL ${sourceUrl} is already in use`);
+    }
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // Schema is managed by drizzle-kit (npm run db:push)
+  async init(): Promise<void> {}
+
+  // User methods implementation
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Series methods implementation
+  async getSeries(id: number): Promise<Series | undefined> {
+    const [result] = await this.db.select().from(series).where(eq(series.id, id));
+    return result;
+  }
+
+  async getSeriesBySourceUrl(url: string): Promise<Series | undefined> {
+    const [result] = await this.db.select().from(series).where(eq(series.sourceUrl, url));
+    return result;
+  }
+
+  async getAllSeries(): Promise<Series[]> {
+    return this.db.select().from(series).orderBy(asc(series.id));
+  }
+
+  async createSeries(insertSeries: InsertSeries): Promise<Series> {
+    const [result] = await this.db.insert(series).values(insertSeries).returning();
+    return result;
+  }
+
+  async updateSeries(id: number, data: Partial<InsertSeries>): Promise<Series | undefined> {
+    const [result] = await this.db.update(series).set(data).where(eq(series.id, id)).returning();
+    return result;
+  }
+
+  async deleteSeries(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(series).where(eq(series.id, id)).returning({ id: series.id });
+    return deleted.length > 0;
+  }
+
+  // Episode methods implementation
+  async getEpisode(id: number): Promise<Episode | undefined> {
+    const [episode] = await this.db.select().from(episodes).where(eq(episodes.id, id));
+    return episode;
+  }
+
+  async getEpisodesBySeriesId(seriesId: number): Promise<Episode[]> {
+    return this.db.select().from(episodes)
+      .where(eq(episodes.seriesId, seriesId))
+      .orderBy(asc(episodes.id));
+  }
+
+  async getEpisodeBySourceUrl(url: string): Promise<Episode | undefined> {
+    const [episode] = await this.db.select().from(episodes).where(eq(episodes.sourceUrl, url));
+    return episode;
+  }
+
+  async createEpisode(insertEpisode: InsertEpisode): Promise<Episode> {
+    const [episode] = await this.db.insert(episodes).values(insertEpisode).returning();
+    return episode;
+  }
+
+  async updateEpisode(id: number, data: Partial<Episode>): Promise<Episode | undefined> {
+    const [episode] = await this.db.update(episodes).set(data).where(eq(episodes.id, id)).returning();
+    return episode;
+  }
+
+  async deleteEpisode(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(episodes).where(eq(episodes.id, id)).returning({ id: episodes.id });
+    return deleted.length > 0;
+  }
+
+  // Download methods implementation
+  async getDownload(id: number): Promise<Download | undefined> {
+    const [download] = await this.db.select().from(downloads).where(eq(downloads.id, id));
+    return download;
+  }
+
+  async getDownloadsByStatus(status: string): Promise<Download[]> {
+    return this.db.select().from(downloads)
+      .where(eq(downloads.status, status))
+      .orderBy(asc(downloads.id));
+  }
+
+  async getAllDownloads(): Promise<Download[]> {
+    return this.db.select().from(downloads).orderBy(asc(downloads.id));
+  }
+
+  async createDownload(insertDownload: InsertDownload): Promise<Download> {
+    const [download] = await this.db.insert(downloads).values({
+      episodeId: insertDownload.episodeId,
+      status: "queued",
+      filePath: insertDownload.filePath || null,
+      quality: insertDownload.quality || null,
+    }).returning();
+    return download;
+  }
+
+  async updateDownload(id: number, data: Partial<Download>): Promise<Download | undefined> {
+    const [download] = await this.db.update(downloads).set(data).where(eq(downloads.id, id)).returning();
+    return download;
+  }
+
+  async deleteDownload(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(downloads).where(eq(downloads.id, id)).returning({ id: downloads.id });
+    return deleted.length > 0;
+  }
+
+  // Upload methods implementation
+  async getUpload(id: number): Promise<Upload | undefined> {
+    const [upload] = await this.db.select().from(uploads).where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async getUploadsByStatus(status: string): Promise<Upload[]> {
+    return this.db.select().from(uploads)
+      .where(eq(uploads.status, status))
+      .orderBy(asc(uploads.id));
+  }
+
+  async getUploadsByDownloadId(downloadId: number): Promise<Upload[]> {
+    return this.db.select().from(uploads)
+      .where(eq(uploads.downloadId, downloadId))
+      .orderBy(asc(uploads.id));
+  }
+
+  async getAllUploads(): Promise<Upload[]> {
+    return this.db.select().from(uploads).orderBy(asc(uploads.id));
+  }
+
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const [upload] = await this.db.insert(uploads).values({
+      downloadId: insertUpload.downloadId,
+      destinationId: insertUpload.destinationId ?? null,
+      remote: insertUpload.remote,
+      path: insertUpload.path,
+      status: insertUpload.status || "queued",
+    }).returning();
+    return upload;
+  }
+
+  async updateUpload(id: number, data: Partial<Upload>): Promise<Upload | undefined> {
+    const [upload] = await this.db.update(uploads).set(data).where(eq(uploads.id, id)).returning();
+    return upload;
+  }
+
+  // Upload destination methods implementation
+  async getUploadDestination(id: number): Promise<UploadDestination | undefined> {
+    const [destination] = await this.db.select().from(uploadDestinations).where(eq(uploadDestinations.id, id));
+    return destination;
+  }
+
+  async getAllUploadDestinations(): Promise<UploadDestination[]> {
+    return this.db.select().from(uploadDestinations).orderBy(asc(uploadDestinations.id));
+  }
+
+  async createUploadDestination(insertDestination: InsertUploadDestination): Promise<UploadDestination> {
+    const [destination] = await this.db.insert(uploadDestinations).values(insertDestination).returning();
+    return destination;
+  }
+
+  async updateUploadDestination(id: number, data: Partial<InsertUploadDestination>): Promise<UploadDestination | undefined> {
+    const [destination] = await this.db.update(uploadDestinations).set(data).where(eq(uploadDestinations.id, id)).returning();
+    return destination;
+  }
+
+  async deleteUploadDestination(id: number): Promise<boolean> {
+    await this.db.delete(uploadRules).where(eq(uploadRules.destinationId, id));
+    const deleted = await this.db.delete(uploadDestinations).where(eq(uploadDestinations.id, id)).returning({ id: uploadDestinations.id });
+    return deleted.length > 0;
+  }
+
+  // Upload rule methods implementation
+  async getAllUploadRules(): Promise<UploadRule[]> {
+    return this.db.select().from(uploadRules).orderBy(asc(uploadRules.id));
+  }
+
+  async createUploadRule(insertRule: InsertUploadRule): Promise<UploadRule> {
+    const [rule] = await this.db.insert(uploadRules).values({
+      destinationId: insertRule.destinationId,
+      seriesId: insertRule.seriesId ?? null,
+    }).returning();
+    return rule;
+  }
+
+  async deleteUploadRule(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(uploadRules).where(eq(uploadRules.id, id)).returning({ id: uploadRules.id });
+    return deleted.length > 0;
+  }
+
+  // Settings methods implementation
+  async getSettings(): Promise<Settings | undefined> {
+    const [row] = await this.db.select().from(settings).where(eq(settings.id, 1));
+    return row?.data;
+  }
+
+  async saveSettings(data: Settings): Promise<Settings> {
+    const [row] = await this.db.insert(settings)
+      .values({ id: 1, data })
+      .onConflictDoUpdate({ target: settings.id, set: { data, updatedAt: new Date() } })
+      .returning();
+    return row.data;
+  }
+}
+
+/**
+ * Pick the storage backend at boot. PostgreSQL is used when DATABASE_URL is
+ * set, a local SQLite file when SQLITE_PATH is set, otherwise everything is
+ * kept in memory and lost on restart.
+ */
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    console.log("[Storage] Using PostgreSQL storage");
+    return new DrizzleStorage(createDb(process.env.DATABASE_URL));
+  }
+
+  if (process.env.SQLITE_PATH) {
+    const filePath = path.resolve(process.env.SQLITE_PATH);
+    console.log(`[Storage] Using SQLite storage at ${filePath}`);
+    return new SqliteStorage(filePath);
+  }
+
+  console.log("[Storage] No database configured, using in-memory storage");
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
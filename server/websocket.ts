@@ -0,0 +1,33 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { eventBus } from "./services/events";
+
+/**
+ * Relay the event bus to browsers on /ws. Upgrades for other paths are left
+ * alone so the Vite HMR socket keeps working in development.
+ */
+export function setupEventSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== "/ws") return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  wss.on("connection", (ws) => {
+    const unsubscribe = eventBus.subscribe((event) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(event));
+      }
+    });
+
+    ws.on("close", unsubscribe);
+    ws.on("error", (error) => {
+      console.error("[WebSocket] Client error:", error);
+    });
+  });
+}
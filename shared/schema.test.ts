@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { bandwidthLimitSchema, downloadBandwidthSchema, settingsSchema, timeOfDaySchema, updateSettingsSchema } from './schema';
+
+describe('bandwidthLimitSchema', () => {
+  it.each([
+    '',
+    'off',
+    '512',
+    '512k',
+    '2M',
+    '1.5G',
+    '10M:off',
+    '08:00,512k',
+    '08:00,512k 19:00,off',
+    'Mon-08:00,512k Sat-00:00,off',
+    '00:00,10M:1M  12:30,off',
+  ])('accepts %j', (value) => {
+    expect(bandwidthLimitSchema.safeParse(value).success).toBe(true);
+  });
+
+  it.each([
+    'fast',
+    '512x',
+    '-1M',
+    '24:00,512k',
+    '08:60,512k',
+    '08:00,',
+    '08:00,512k,19:00,off',
+    'Someday-08:00,512k',
+    '512k 2M',
+    '512k; rm -rf /',
+  ])('rejects %j', (value) => {
+    expect(bandwidthLimitSchema.safeParse(value).success).toBe(false);
+  });
+});
+
+describe('downloadBandwidthSchema', () => {
+  it('accepts a plain rate only', () => {
+    expect(downloadBandwidthSchema.safeParse('512k').success).toBe(true);
+    expect(downloadBandwidthSchema.safeParse('off').success).toBe(true);
+    expect(downloadBandwidthSchema.safeParse('08:00,512k').success).toBe(false);
+  });
+});
+
+describe('timeOfDaySchema', () => {
+  it.each(['', '00:00', '09:30', '23:59'])('accepts %j', (value) => {
+    expect(timeOfDaySchema.safeParse(value).success).toBe(true);
+  });
+
+  it.each(['9:30', '24:00', '12:60', 'noon'])('rejects %j', (value) => {
+    expect(timeOfDaySchema.safeParse(value).success).toBe(false);
+  });
+});
+
+describe('settingsSchema remotePath', () => {
+  it.each(['/anime/', '', 'anime/..hidden', 'anime/Show: The Movie'])('accepts %j', (remotePath) => {
+    expect(settingsSchema.shape.remotePath.safeParse(remotePath).success).toBe(true);
+  });
+
+  it.each(['..', '/anime/../../secret', '../anime', '../:anime'])('rejects %j', (remotePath) => {
+    expect(settingsSchema.shape.remotePath.safeParse(remotePath).success).toBe(false);
+  });
+
+  it('is checked when the settings are updated', () => {
+    expect(updateSettingsSchema.safeParse({ remotePath: '/anime/../..' }).success).toBe(false);
+  });
+});
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -25,6 +25,7 @@ export const series = pgTable("series", {
   totalEpisodes: integer("total_episodes"),
   imageUrl: text("image_url"),
   sourceUrl: text("source_url").notNull().unique(),
+  autoUpload: boolean("auto_upload"), // overrides the auto-upload setting, null follows it
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -36,6 +37,16 @@ export const insertSeriesSchema = createInsertSchema(series).omit({
 export type InsertSeries = z.infer<typeof insertSeriesSchema>;
 export type Series = typeof series.$inferSelect;
 
+// Video source candidate scraped from an episode page
+export const videoSourceSchema = z.object({
+  url: z.string(),
+  host: z.string(),
+  quality: z.string().nullable(), // e.g. 720p, HD, SD
+  container: z.string(), // mp4, hls, flv, webm, ...
+});
+
+export type VideoSource = z.infer<typeof videoSourceSchema>;
+
 // Episode schema
 export const episodes = pgTable("episodes", {
   id: serial("id").primaryKey(),
@@ -46,10 +57,14 @@ export const episodes = pgTable("episodes", {
   duration: text("duration"),
   sourceUrl: text("source_url").notNull().unique(),
   downloadUrl: text("download_url"),
+  downloadUrlResolvedAt: timestamp("download_url_resolved_at"),
+  sources: jsonb("sources").$type<VideoSource[]>(), // ranked mirrors, downloadUrl is the one in use
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertEpisodeSchema = createInsertSchema(episodes).omit({
+export const insertEpisodeSchema = createInsertSchema(episodes, {
+  sources: z.array(videoSourceSchema).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -61,16 +76,22 @@ export type Episode = typeof episodes.$inferSelect;
 export const downloads = pgTable("downloads", {
   id: serial("id").primaryKey(),
   episodeId: integer("episode_id").notNull(),
-  status: text("status").notNull().default("queued"), // queued, downloading, paused, completed, error, uploaded
+  status: text("status").notNull().default("queued"), // queued, downloading, paused, retrying, completed, error, uploading, uploaded
   progress: integer("progress").default(0),
   totalSize: integer("total_size"),
   downloadedSize: integer("downloaded_size").default(0),
   speed: integer("speed"),
   filePath: text("file_path"),
   error: text("error"),
+  quality: text("quality"), // quality preference, see qualityPreferenceSchema
+  sourceIndex: integer("source_index").default(0), // position in episode.sources ordered by quality
+  attempts: integer("attempts").default(0),
+  lastError: text("last_error"),
+  nextRetryAt: timestamp("next_retry_at"),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
+  rateLimit: integer("rate_limit"), // bytes per second, null for no limit of its own
 });
 
 export const insertDownloadSchema = createInsertSchema(downloads).omit({
@@ -81,32 +102,291 @@ export const insertDownloadSchema = createInsertSchema(downloads).omit({
 export type InsertDownload = z.infer<typeof insertDownloadSchema>;
 export type Download = typeof downloads.$inferSelect;
 
+// Upload destination schema, a remote plus a folder template such as
+// "anime/{series}/Season {season}"
+export const uploadDestinations = pgTable("upload_destinations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  remote: text("remote").notNull(), // e.g. "gdrive:"
+  pathTemplate: text("path_template").notNull().default(""), // placeholders: {series}, {season}, {episode}
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Placeholders a destination's path template may use
+export const pathTemplatePlaceholders = ["{series}", "{season}", "{episode}"] as const;
+
+const noParentSegments = (value: string) => !value.split("/").includes("..");
+
+// Path on a remote, optionally after its "remote:" name, that stays inside the remote.
+// Checked whole as well, a path in the settings is joined to the default remote.
+const remotePathSchema = z.string().refine(
+  value => noParentSegments(value) && noParentSegments(value.slice(value.indexOf(":") + 1)),
+  'Path may not contain ".."',
+);
+
+export const insertUploadDestinationSchema = createInsertSchema(uploadDestinations, {
+  name: z.string().min(1, "Name is required"),
+  remote: z.string().min(1, "Remote is required"),
+  pathTemplate: z.string().refine(noParentSegments, 'Path may not contain ".."'),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateUploadDestinationSchema = insertUploadDestinationSchema.partial();
+
+export type InsertUploadDestination = z.infer<typeof insertUploadDestinationSchema>;
+export type UploadDestination = typeof uploadDestinations.$inferSelect;
+
+// Upload rule schema, routes a series' completed downloads to a destination.
+// A rule without a series applies to every series.
+export const uploadRules = pgTable("upload_rules", {
+  id: serial("id").primaryKey(),
+  destinationId: integer("destination_id").notNull(),
+  seriesId: integer("series_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertUploadRuleSchema = createInsertSchema(uploadRules, {
+  seriesId: z.number().int().nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertUploadRule = z.infer<typeof insertUploadRuleSchema>;
+export type UploadRule = typeof uploadRules.$inferSelect;
+
+// Upload schema, one row per attempt to copy a download to a remote
+export const uploads = pgTable("uploads", {
+  id: serial("id").primaryKey(),
+  downloadId: integer("download_id").notNull(),
+  destinationId: integer("destination_id"), // null for uploads to a path picked by hand
+  remote: text("remote").notNull(), // e.g. "gdrive:"
+  path: text("path").notNull(), // file path on the remote
+  status: text("status").notNull().default("queued"), // queued, uploading, uploaded, error, cancelled
+  bytes: bigint("bytes", { mode: "number" }).default(0), // episode files and batches run past 2 GiB
+  totalBytes: bigint("total_bytes", { mode: "number" }),
+  error: text("error"),
+  attempts: integer("attempts").default(0),
+  verified: boolean("verified"), // remote copy checked against the local file, null until checked
+  localRemoved: boolean("local_removed").default(false), // local file deleted after verification
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertUploadSchema = createInsertSchema(uploads).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertUpload = z.infer<typeof insertUploadSchema>;
+export type Upload = typeof uploads.$inferSelect;
+
 // URL Fetch Schema
 export const urlFetchSchema = z.object({
   url: z.string().url("Please provide a valid Wcofun.net URL"),
   forceRefresh: z.boolean().optional(),
 });
 
+// Quality preference: "highest", "lowest" or a target resolution like "720p"
+export const qualityPreferenceSchema = z.string().regex(
+  /^(highest|lowest|\d{3,4}p)$/,
+  'Quality must be "highest", "lowest" or a resolution like "720p"',
+);
+
+export const qualityOptions = ["highest", "1080p", "720p", "480p", "360p", "lowest"] as const;
+
+// rclone --bwlimit value: a rate like 512k, optionally as upload:download, or
+// a timetable of "[Day-]HH:MM,rate" entries such as "08:00,512k 19:00,off"
+const bandwidthRate = String.raw`(off|\d+(\.\d+)?[bkmgtp]?)(:(off|\d+(\.\d+)?[bkmgtp]?))?`;
+const bandwidthEntry = String.raw`((mon|tue|wed|thu|fri|sat|sun)-)?([01]?\d|2[0-3]):[0-5]\d,${bandwidthRate}`;
+
+export const bandwidthLimitSchema = z.string().regex(
+  new RegExp(`^(|${bandwidthRate}|${bandwidthEntry}( +${bandwidthEntry})*)$`, "i"),
+  'Bandwidth must be empty, "off", a size like 512k or 2M, or a timetable like "08:00,512k 19:00,off"',
+);
+
+// Download speed limit: a rate like 512k or 2M, bare numbers in KiB/s as
+// with rclone, empty or "off" for unlimited
+export const downloadBandwidthSchema = z.string().regex(
+  /^(|off|\d+(\.\d+)?[bkmgtp]?)$/i,
+  'Bandwidth must be empty, "off" or a size like 512k or 2M',
+);
+
+// Local time of day as "HH:MM", empty when unset
+export const timeOfDaySchema = z.string().regex(/^(|([01]\d|2[0-3]):[0-5]\d)$/, "Times must be HH:MM, 24-hour");
+
 // Download Request Schema
 export const downloadRequestSchema = z.object({
   type: z.enum(["episode", "series"]),
   id: z.number(),
   downloadPath: z.string().optional(),
+  quality: qualityPreferenceSchema.optional(),
+});
+
+// Application settings, every field has a default so older saved settings stay valid
+export const settingsSchema = z.object({
+  downloadPath: z.string().min(1).default("downloads"), // relative to the app directory unless absolute
+  maxConcurrentDownloads: z.number().int().min(1).max(20).default(3),
+  defaultQuality: qualityPreferenceSchema.default("highest"),
+  autoUpload: z.boolean().default(false),
+  defaultRemote: z.string().default(""),
+  remotePath: remotePathSchema.default("/anime/"), // joined to defaultRemote
+  retentionDays: z.number().int().min(0).max(3650).default(0), // 0 keeps files forever
+  autoDeleteAfterUpload: z.boolean().default(false), // only once the remote copy is verified
+  uploadBandwidth: bandwidthLimitSchema.default(""), // rclone --bwlimit value, empty for unlimited
+  uploadHoldStart: timeOfDaySchema.default(""), // queued uploads wait from this time...
+  uploadHoldEnd: timeOfDaySchema.default(""), // ...until this one, both unset to never hold
+  downloadBandwidth: downloadBandwidthSchema.default(""), // shared by all downloads, empty for unlimited
+  downloadWindowStart: timeOfDaySchema.default(""), // the queue only starts downloads from this time...
+  downloadWindowEnd: timeOfDaySchema.default(""), // ...until this one, both unset to run any time
+  rcloneConfigBackups: z.number().int().min(1).max(100).default(10), // rclone.conf backups to keep
+});
+
+export const updateSettingsSchema = settingsSchema.partial();
+
+export type Settings = z.infer<typeof settingsSchema>;
+export type UpdateSettings = z.infer<typeof updateSettingsSchema>;
+
+// Settings are stored as a single JSON row
+export const settings = pgTable("settings", {
+  id: integer("id").primaryKey(),
+  data: jsonb("data").$type<Settings>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Series Upload Settings Schema
+export const seriesUploadSettingsSchema = z.object({
+  autoUpload: z.boolean().nullable(), // null follows the global setting
 });
 
 // Rclone Upload Schema
 export const rcloneUploadSchema = z.object({
   downloadIds: z.array(z.number()),
-  remotePath: z.string(),
+  remotePath: remotePathSchema.optional(), // defaults to the remote and path in the settings
 });
 
+// Remote Browser Schemas, paths are relative to the remote's root
+export const rcloneListSchema = z.object({
+  remote: z.string().min(1, "Remote is required"),
+  path: z.string().refine(noParentSegments, 'Path may not contain ".."').default(""),
+});
+
+export const rcloneMkdirSchema = z.object({
+  remote: z.string().min(1, "Remote is required"),
+  path: z.string().min(1, "Folder path is required").refine(noParentSegments, 'Path may not contain ".."'),
+});
+
+// Entry of a remote directory listing
+export type RemoteEntry = {
+  name: string;
+  path: string;
+  size: number; // -1 for directories
+  isDir: boolean;
+  modTime: string;
+};
+
 // Rclone Config Schema
 export const rcloneConfigSchema = z.object({
   configContent: z.string().min(1, "Configuration content is required"),
 });
 
+// Stands in for secret values in config responses; sending it back when
+// saving a remote keeps the stored value
+export const redactedSecret = "<redacted>";
+
+/**
+ * Whether a remote option holds a credential, e.g. token, client_secret,
+ * key_pem or sse_customer_key_base64. Names are matched by substring since
+ * backends keep adding variants, a harmless option is redacted at worst.
+ */
+export function isSecretOption(key: string): boolean {
+  return /key|pass|secret|token|credential|pem|sas/i.test(key);
+}
+
+const singleLine = (value: string) => !/[\r\n]/.test(value);
+
+// Rclone Remote Schema, one section of rclone.conf
+export const rcloneRemoteSchema = z.object({
+  name: z.string()
+    .regex(/^[\w.+@][\w .+@-]*$/, "Remote names may use letters, numbers, spaces and _ - . + @")
+    .refine((name) => !name.endsWith(" "), "Remote names may not end with a space"),
+  type: z.string().regex(/^[a-z0-9]+$/, "Type is a backend name such as drive or s3"),
+  options: z.record(
+    z.string().regex(/^[a-z0-9_]+$/, "Option names use lowercase letters, numbers and _")
+      .refine((key) => key !== "type", "Set the type with the type field"),
+    z.string().refine(singleLine, "Option values must be a single line"),
+  ).default({}),
+});
+
+export type RcloneRemote = z.infer<typeof rcloneRemoteSchema>;
+
+// One line of a diff between two configs, secrets redacted on both sides
+export type ConfigDiffLine = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+// A backup of rclone.conf taken before it was replaced
+export type RcloneConfigBackup = {
+  id: string;
+  createdAt: string;
+  remotes: string[];
+  diff: ConfigDiffLine[]; // what restoring it would change in the current config
+  error?: string; // set when the backup can't be parsed
+};
+
 // Download Control Schema
 export const downloadControlSchema = z.object({
   downloadId: z.number(),
   action: z.enum(["pause", "resume", "cancel"]),
 });
+
+// Per-download speed limit, null lifts it
+export const downloadRateLimitSchema = z.object({
+  rateLimit: z.number().int().min(1).nullable(), // bytes per second
+});
+
+// Temporary override of the download schedule: run the queue outside the
+// download window, or pause it inside, for a number of minutes. A null mode
+// goes back to the schedule.
+export const downloadScheduleOverrideSchema = z.object({
+  mode: z.enum(["run", "pause"]).nullable(),
+  minutes: z.number().int().min(1).max(24 * 60).default(60),
+});
+
+// State of the download queue's schedule
+export type DownloadSchedule = {
+  open: boolean; // whether the queue starts downloads right now
+  windowStart: string;
+  windowEnd: string;
+  override: { mode: "run" | "pause"; until: string } | null;
+};
+
+// Transfer stats rclone reports while uploading
+export type UploadProgress = {
+  bytes: number;
+  totalBytes: number | null;
+  speed: number; // bytes per second
+  eta: number | null; // seconds
+};
+
+// Events pushed to the client over the /ws socket
+export type DownloadEvent =
+  | { type: "download:progress"; download: Download }
+  | { type: "download:status"; download: Download }
+  | { type: "download:completed"; download: Download }
+  | { type: "download:error"; download: Download; error: string };
+
+export type UploadEvent =
+  | ({ type: "upload:progress"; uploadId: number; downloadId: number } & UploadProgress)
+  | { type: "upload:status"; uploadId: number; downloadId: number; status: string }
+  | { type: "upload:completed"; uploadId: number; downloadId: number; remotePath: string }
+  | { type: "upload:error"; uploadId: number; downloadId: number; error: string };
+
+export type QueueEvent = { type: "queue:schedule"; schedule: DownloadSchedule };
+
+export type AppEvent = DownloadEvent | UploadEvent | QueueEvent;